@@ -24,6 +24,9 @@ import { policyRoutes } from './routes/policyRouter';
 import { roleRoutes } from './routes/roleRouter';
 import { resourceRoutes } from './routes/resourceRouter';
 import { scopeRoutes } from './routes/scopeRouter';
+import { userRoleRoutes } from './routes/userRoleRouter';
+import { adminRoutes } from './routes/adminRouter';
+import { organizationRoutes } from './routes/organizationRouter';
 
 
 // registering cors to get the requests.
@@ -57,6 +60,9 @@ app.register(policyRoutes, { prefix: '/api/policy' });
 app.register(roleRoutes, { prefix: '/api/role' });
 app.register(resourceRoutes, { prefix: '/api/resource'});
 app.register(scopeRoutes, { prefix: '/api/scope' });
+app.register(userRoleRoutes, { prefix: '/api/user' });
+app.register(adminRoutes, { prefix: '/api/admin' });
+app.register(organizationRoutes, { prefix: '/api/organization' });
 
 
 
@@ -1,4 +1,47 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
 export const config = {
     DEFAULT_CACHE_TIME : 1 * 60 * 60,
-    RBAC_CACHE_TIME : 1 * 60 * 60
-}
\ No newline at end of file
+    RBAC_CACHE_TIME : 1 * 60 * 60,
+    // seconds between two sweeps of expired policies and role assignments, 0 → disabled
+    RBAC_EXPIRY_SWEEP_INTERVAL : parseInt(process.env.RBAC_EXPIRY_SWEEP_INTERVAL ?? '60'),
+    // ttl of cached "not found" query results
+    NEGATIVE_CACHE_TIME : 60,
+    ACCESS_TOKEN_TIME : 15 * 60,
+    REFRESH_TOKEN_TIME : 7 * 24 * 60 * 60,
+    PASSWORD_RESET_TOKEN_TIME : 30 * 60,
+    EMAIL_VERIFICATION_TOKEN_TIME : 24 * 60 * 60,
+    // url of the frontend, used to build the links sent in mails
+    APP_URL : process.env.APP_URL || 'http://localhost:3000',
+    // single production check for the whole app (ENVIRONMENT is kept for older deployments)
+    IS_PRODUCTION : (process.env.NODE_ENV || process.env.ENVIRONMENT) === 'production',
+    SESSION : {
+        ACCESS_TOKEN_COOKIE_NAME : process.env.ACCESS_TOKEN_COOKIE_NAME || 'token',
+        REFRESH_TOKEN_COOKIE_NAME : process.env.REFRESH_TOKEN_COOKIE_NAME || 'refreshToken',
+        COOKIE_DOMAIN : process.env.COOKIE_DOMAIN || undefined,
+        COOKIE_SAME_SITE : (process.env.COOKIE_SAME_SITE || 'lax') as 'lax' | 'strict' | 'none',
+        // when false tokens are only delivered through cookies
+        RETURN_TOKENS_IN_BODY : process.env.RETURN_TOKENS_IN_BODY !== 'false'
+    },
+    CACHE : {
+        // memory | redis
+        DRIVER : process.env.CACHE_DRIVER || 'memory',
+        REDIS_URL : process.env.CACHE_REDIS_URL || process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+        // ms until a redis connect or command fails, so a stalled server falls back to the database (0 → no timeout)
+        TIMEOUT_MS : parseInt(process.env.CACHE_TIMEOUT_MS ?? '2000'),
+        // broadcasts deleted keys to the other app instances through redis pub/sub
+        PUBSUB_ENABLED : process.env.CACHE_PUBSUB === 'true',
+        INVALIDATION_CHANNEL : process.env.CACHE_INVALIDATION_CHANNEL || 'cache:invalidate'
+    },
+    TENANT : {
+        // request header selecting the organization when the access token carries none
+        HEADER : (process.env.TENANT_HEADER || 'x-organization-id').toLowerCase()
+    },
+    MAIL : {
+        TRANSPORT : process.env.MAIL_TRANSPORT || 'console',
+        FROM : process.env.MAIL_FROM || 'no-reply@binarybrains.local',
+        FILE_DIR : process.env.MAIL_FILE_DIR || 'logs/mails'
+    }
+}
@@ -31,6 +31,7 @@ export const AppDataSource = new DataSource({
   synchronize: true,
   logging: true,
   entities: [__dirname + "/../entities/**/*.js"],
+  subscribers: [__dirname + "/../subscribers/**/*.js"],
 });
 
 export const connectDB = async (fastify: FastifyInstance) => {
@@ -0,0 +1,199 @@
+/**
+ * Admin Controller
+ * ----------------
+ * Handles maintenance operations for administrators.
+ *
+ * Features:
+ *  - Force a rebuild of the cached RBAC policy maps (the map of the request's organization is rebuilt right away)
+ *  - Cache statistics (hit/miss/expiry counters)
+ *  - List cache keys by prefix with their TTL
+ *  - Delete a cache key or every key of a prefix
+ *  - Warm up the cache (RBAC policy map)
+ *
+ * Logging:
+ *  - `info` → High-level action flow
+ *  - `debug` → Request details & results for debugging
+ *
+ * Error Handling:
+ *  - Internal errors are logged and return a safe message
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
+import { isInvalid } from '../utils/util';
+import { deleteCacheData, deleteCacheKeys, getCacheStats, listCacheKeys } from '../utils/cache/cacheUtils';
+import { getRBACGrantKeys, rebuildRBACPolicyMap, RBACMap } from '../utils/rbacUtil';
+import { getRequestTenant } from '../utils/tenantUtil';
+
+const MAX_CACHE_KEYS_LIMIT = 1000;
+
+const summarizeRBACMap = (policiesMap: RBACMap) => ({
+  roles: Object.keys(policiesMap).length,
+  grants: getRBACGrantKeys(policiesMap).size,
+});
+
+
+/**
+ * Rebuild the RBAC policy map cache
+ */
+export const rebuildRBACCache = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running rebuildRBACCache...");
+
+  try {
+    const policiesMap = await rebuildRBACPolicyMap(getRequestTenant(request));
+
+    const result = { ...summarizeRBACMap(policiesMap), rebuiltAt: new Date().toISOString() };
+
+    request.server.log.debug(`RBAC Cache Rebuild Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "RBAC cache rebuilt successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in rebuildRBACCache");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Get cache statistics
+ */
+export const getCacheStatistics = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running getCacheStatistics...");
+
+  try {
+    const stats = await getCacheStats();
+
+    request.server.log.debug(`Cache Stats: ${JSON.stringify(stats)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Cache statistics fetched successfully.",
+      data: stats,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getCacheStatistics");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * List cache keys by prefix with their TTL
+ */
+export const getCacheKeys = async (
+  request: FastifyRequest<{ Querystring: { prefix?: string; limit?: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running getCacheKeys...");
+
+  try {
+    request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
+
+    const prefix = request.query?.prefix ?? '';
+    const limit = Math.min(Math.max(parseInt(request.query?.limit, 10) || 100, 1), MAX_CACHE_KEYS_LIMIT);
+
+    const keys = await listCacheKeys(prefix, limit);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Cache keys fetched successfully.",
+      data: { prefix, limit, keys },
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getCacheKeys");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Delete a cache key (`?key=`) or every key of a prefix (`?prefix=`)
+ */
+export const deleteCache = async (
+  request: FastifyRequest<{ Querystring: { key?: string; prefix?: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running deleteCache...");
+
+  try {
+    request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
+
+    const { key, prefix } = request.query ?? {};
+
+    if (isInvalid(key) === isInvalid(prefix)) {
+      request.server.log.info("Exactly one of key or prefix is required.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Provide either key or prefix.",
+      });
+    }
+
+    if (!isInvalid(key)) {
+      await deleteCacheData(key);
+    } else {
+      await deleteCacheKeys(prefix);
+    }
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Cache deleted successfully.",
+      data: { key, prefix },
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in deleteCache");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Warm up the cache (rebuilds the RBAC policy map)
+ */
+export const warmUpCache = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running warmUpCache...");
+
+  try {
+    const policiesMap = await rebuildRBACPolicyMap(getRequestTenant(request));
+    const result = { rbac: summarizeRBACMap(policiesMap), warmedUpAt: new Date().toISOString() };
+
+    request.server.log.debug(`Cache Warm Up Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Cache warmed up successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in warmUpCache");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
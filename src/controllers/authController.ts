@@ -3,13 +3,35 @@
  */
 
 import fastify, { FastifyReply, FastifyRequest, FastifyInstance } from "fastify";
-import { isInvalid } from "../utils/util";
-import { createRecord, findOne, findOneAndUpdate } from "../utils/dbUtil";
+import { hashToken, isInvalid } from "../utils/util";
+import { createPasswordResetToken, createUser, DEFAULT_USER_ROLE, findUserByEmail, findUserByGoogleId, findUserById, findUserByPasswordResetToken, findUserByUserName, hashPassword, updateUser } from "../utils/userUtil";
+import { denylistAccessToken, REFRESH_TOKEN_STATUS, revokeAllUserSessions, revokeRefreshToken, rotateRefreshToken } from "../utils/tokenUtil";
+import { clearSessionCookies, getRefreshTokenFromRequest, sendSessionTokens, startSession } from "../utils/sessionUtil";
+import { extractAccessToken } from "../middlewares/auth/authMiddleware";
+import { sendMail } from "../utils/mail/mailUtil";
+import { config } from "../config/config";
+import { User } from "../entities/User";
 import { OAuth2Client } from 'google-auth-library'
 import bcrypt from 'bcryptjs';
 import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from "../utils/httpUtils";
 const googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
+
+// signs the email verification link and mails it to the user, only the last sent link is accepted
+const sendVerificationMail = async (server: FastifyInstance, user: User) => {
+  const payload: EmailVerificationPayload = { userId: String(user.id), role: user.role, purpose: EMAIL_VERIFICATION_PURPOSE };
+  const verificationToken = server.jwt.sign(payload, { expiresIn: config.EMAIL_VERIFICATION_TOKEN_TIME });
+  await updateUser(user.id, { emailVerificationTokenHash: hashToken(verificationToken) });
+  const verificationLink = `${config.APP_URL}/verify-email?token=${verificationToken}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email",
+    text: `Welcome to Binary Brains! Use the link below to verify your email. The link expires in ${config.EMAIL_VERIFICATION_TOKEN_TIME / (60 * 60)} hours.\n\n${verificationLink}`,
+  });
+};
+
 export const loginWithEmailAndPassword = async (req: FastifyRequest, reply: FastifyReply) => {
     try {
         
@@ -20,7 +42,7 @@ export const loginWithEmailAndPassword = async (req: FastifyRequest, reply: Fast
             return reply.code(HTTP_STATUS_CODE.BAD_REQUEST).send({ status: HTTP_STATUS_MESSAGES.BAD_REQUEST, message: "Invalid Fields Found!" });
         }
 
-        const existingUser = await findOne(req.server, 'users', { email });
+        const existingUser = await findUserByEmail(email);
         if(isInvalid(existingUser)) {
             req.server.log.error("User with email does not exists. Returning not found!");
             return reply.code(HTTP_STATUS_CODE.NOT_FOUND).send({ status: HTTP_STATUS_MESSAGES.NOT_FOUND, message: 'User Not Found' });
@@ -33,23 +55,12 @@ export const loginWithEmailAndPassword = async (req: FastifyRequest, reply: Fast
             return reply.code(HTTP_STATUS_CODE.FORBIDDEN).send({ status: HTTP_STATUS_MESSAGES.FORBIDDEN, message: "Invalid Credentials!" });
         }
 
-        const { accessToken, refreshToken } = generateTokens({userId: existingUser._id.toString(), role: existingUser.role }, req.server);
+        if(!existingUser.isActive) {
+            req.server.log.error("User has not verified the email. Returning forbidden response!");
+            return reply.code(HTTP_STATUS_CODE.FORBIDDEN).send({ status: HTTP_STATUS_MESSAGES.FORBIDDEN, message: "Please verify your email before logging in!" });
+        }
 
-        reply
-        .setCookie('token', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 15 * 60, // 15 minutes
-        })
-        .setCookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        });
+        const tokenData = await startSession(req, reply, existingUser);
 
         return reply.code(200).send({ 
             status: HTTP_STATUS_MESSAGES.ACCEPTED,
@@ -57,11 +68,10 @@ export const loginWithEmailAndPassword = async (req: FastifyRequest, reply: Fast
             data: {
                 firstName: existingUser.firstName,
                 lastName: existingUser.lastName,
-                refreshToken: refreshToken,
-                token: accessToken,
                 email: existingUser.email,
                 avatar: existingUser.avatar,
-                newComer: false
+                newComer: false,
+                ...tokenData
             }
         })
     
@@ -76,9 +86,9 @@ export const signUpWithEmailAndPassword = async (req: FastifyRequest<{ Body: Sig
         
         req.server.log.info("Signing up user with email and password");
 
-        const { email, password, userName, role, firstName, lastName } = req.body;
+        const { email, password, userName, firstName, lastName } = req.body;
         
-        const existingUser = await findOne(req.server, 'users', { email });
+        const existingUser = await findUserByEmail(email);
 
         if(!isInvalid(existingUser)) {
 
@@ -92,44 +102,33 @@ export const signUpWithEmailAndPassword = async (req: FastifyRequest<{ Body: Sig
             }
         }
 
-        const hashedPassword = await bcrypt.hash(password, 10);
+        const hashedPassword = await hashPassword(password);
 
 
-        const newUser = await createRecord(req.server, 'users', { 
-            firstName, lastName, email, userName, role, password: hashedPassword
+        const newUser = await createUser({
+            firstName, lastName, email, userName, role: DEFAULT_USER_ROLE, password: hashedPassword, isActive: false
         });
 
-        req.server.log.info("User created. Generating access and refresh token.");
+        req.server.log.info("User created. Sending email verification link.");
 
-        const { accessToken, refreshToken } = generateTokens({ userId: newUser.insertedId.toString(), role }, req.server);
-        await findOneAndUpdate(req.server, 'users', { email }, { refreshToken })
-        
-        reply
-        .setCookie('token', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 15 * 60, // 15 minutes
-        })
-        .setCookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        });
+        let message = "User Created! Please verify your email to login.";
+        try {
+            await sendVerificationMail(req.server, newUser);
+        } catch (error) {
+            // the account exists already, the user can request the link again
+            req.server.log.error(`Error in sending the verification mail: ${error.message}`);
+            message = "User Created! The verification mail could not be sent, please request a new one to verify your email.";
+        }
 
-        return reply.code(200).send({ 
-            status: HTTP_STATUS_MESSAGES.ACCEPTED,
-            message: "User Created!",
+        return reply.code(HTTP_STATUS_CODE.CREATED).send({ 
+            status: HTTP_STATUS_MESSAGES.CREATED,
+            message,
             data: {
                 firstName: firstName,
                 lastName: lastName,
-                refreshToken: refreshToken,
-                token: accessToken,
                 email,
-                newComer: false
+                newComer: false,
+                isEmailVerified: false
             }
         });
         
@@ -141,16 +140,6 @@ export const signUpWithEmailAndPassword = async (req: FastifyRequest<{ Body: Sig
     }
 }
 
-export const generateTokens = (
-  payload: TokenPayload,
-  server: FastifyInstance
-) => {
-  const accessToken = server.jwt.sign(payload, { expiresIn: '15m' });
-  const refreshToken = server.jwt.sign(payload, { expiresIn: '7d' });
-
-  return { accessToken, refreshToken };
-};
-
 export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) => {
   try {
 
@@ -190,33 +179,30 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
     });
 
     logger.info('Checking for the existing user.');
-    const existingUser = await findOne(req.server, 'users', { googleId: sub });
+    const existingUser = (await findUserByGoogleId(sub)) ?? (await findUserByEmail(email));
 
     if (isInvalid(existingUser)) {
       logger.info('User not found. Creating new user.');
 
-      const hashedPassword = await bcrypt.hash(
-        process.env.USER_DEFAULT_PASSWORD!,
-        10
-      );
+      const hashedPassword = await hashPassword(process.env.USER_DEFAULT_PASSWORD!);
 
       let baseUsername = `${given_name}${family_name ? family_name.charAt(0) : ""}`.toLowerCase();
       baseUsername = baseUsername.replace(/[^a-z0-9]/g, ""); // Remove special characters
 
       let username = baseUsername;
 
-      while (await findOne(req.server, 'users', { userName: username })) {
+      while (await findUserByUserName(username)) {
           username = `${baseUsername}${Math.floor(1000 + Math.random() * 9000)}`; // Add a random 4-digit number
       }
 
       const defaultUserName =  username;
 
-      const newUser = await createRecord(req.server, 'users', {
+      const newUser = await createUser({
         firstName: given_name,
         lastName: family_name || '',
         email: email,
         avatar: picture,
-        role: 'student',
+        role: DEFAULT_USER_ROLE,
         userName: defaultUserName,
         password: hashedPassword,
         googleId: sub,
@@ -224,28 +210,7 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
 
       logger.info('User created. Generating the access and refresh token.');
 
-      const { accessToken, refreshToken } = generateTokens(
-        {userId: newUser.insertedId.toString(), role: 'student'},
-        req.server
-      );
-
-      await findOneAndUpdate(req.server, 'users', { email }, { refreshToken });
-
-      reply.setCookie('jwtToken', accessToken, {
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-        httpOnly: true,
-        secure: process.env.ENVIRONMENT === 'production',
-        sameSite: 'lax',
-        path: '/',
-      });
-
-      reply.setCookie('refreshToken', refreshToken, {
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-        httpOnly: true,
-        secure: process.env.ENVIRONMENT === 'production',
-        sameSite: 'lax',
-        path: '/',
-      });
+      const tokenData = await startSession(req, reply, newUser);
 
       logger.info('Returning success response.');
       return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
@@ -256,8 +221,7 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
           avatar: picture,
           userName: username,
           newComer: true,
-          token: accessToken,
-          refreshToken: refreshToken,
+          ...tokenData,
         },
       });
     } else {
@@ -275,27 +239,7 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
         });
       }
 
-      const { accessToken, refreshToken } = generateTokens(
-        { userId: existingUser._id.toString(), role: existingUser.role }, req.server
-      );
-
-      await findOneAndUpdate(req.server, 'users', { email }, { refreshToken })
-
-      reply.setCookie('jwtToken', accessToken, {
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-        httpOnly: true,
-        secure: process.env.ENVIRONMENT === 'production',
-        sameSite: 'lax',
-        path: '/',
-      });
-
-      reply.setCookie('refreshToken', refreshToken, {
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-        httpOnly: true,
-        secure: process.env.ENVIRONMENT === 'production',
-        sameSite: 'lax',
-        path: '/',
-      });
+      const tokenData = await startSession(req, reply, existingUser);
 
       logger.info('Returning success response.');
       return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
@@ -307,8 +251,7 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
           avatar: existingUser.avatar,
           userName: existingUser.userName,
           newComer: false,
-          token: accessToken,
-          refreshToken: refreshToken,
+          ...tokenData,
         },
       });
     }
@@ -325,8 +268,23 @@ export const googleAuthLogin = async (req: FastifyRequest,reply: FastifyReply) =
 export const logoutUser = async (req: FastifyRequest, reply: FastifyReply) => {
   try {
 
-    reply.clearCookie('jwtToken');
-    reply.clearCookie('refreshToken');
+    req.server.log.info("Logging out user.");
+
+    const accessToken = extractAccessToken(req);
+    if (!isInvalid(accessToken)) {
+      try {
+        await denylistAccessToken(req.server.jwt.verify<TokenPayload>(accessToken));
+      } catch (error) {
+        req.server.log.info(`Skipping access token revocation: ${error.message}`);
+      }
+    }
+
+    const refreshToken = getRefreshTokenFromRequest(req);
+    if (!isInvalid(refreshToken)) {
+      await revokeRefreshToken(req.server, refreshToken);
+    }
+
+    clearSessionCookies(reply);
     return reply.code(HTTP_STATUS_CODE.SUCCESS).send({ status: HTTP_STATUS_MESSAGES.ACCEPTED, message: "Logged out successfully!" });
 
   } catch (error) {
@@ -335,4 +293,215 @@ export const logoutUser = async (req: FastifyRequest, reply: FastifyReply) => {
     return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in logging out user. Please contact admin!" });
 
   }
-}
\ No newline at end of file
+}
+
+export const logoutAllSessions = async (req: FastifyRequest, reply: FastifyReply) => {
+  try {
+
+    const userId = req.user?.userId;
+    req.server.log.info(`Logging out all sessions of user: ${userId}`);
+
+    const isRevoked = await revokeAllUserSessions(userId);
+
+    if (!isRevoked) {
+      req.server.log.info("User not found while logging out all sessions.");
+      return reply.code(HTTP_STATUS_CODE.NOT_FOUND).send({ status: HTTP_STATUS_MESSAGES.NOT_FOUND, message: 'User Not Found' });
+    }
+
+    clearSessionCookies(reply);
+    return reply.code(HTTP_STATUS_CODE.SUCCESS).send({ status: HTTP_STATUS_MESSAGES.ACCEPTED, message: "Logged out from all sessions successfully!" });
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${logoutAllSessions.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in logging out user. Please contact admin!" });
+
+  }
+}
+
+export const refreshAccessToken = async (req: FastifyRequest, reply: FastifyReply) => {
+  try {
+
+    req.server.log.info("Refreshing access token.");
+
+    const token = getRefreshTokenFromRequest(req);
+
+    if (isInvalid(token)) {
+      req.server.log.info("Refresh token missing in request.");
+      return reply.code(HTTP_STATUS_CODE.UNAUTHORIZED).send({ status: HTTP_STATUS_MESSAGES.UNAUTHORIZED, message: "Refresh token is missing." });
+    }
+
+    const result = await rotateRefreshToken(req.server, token);
+
+    if (result.status !== REFRESH_TOKEN_STATUS.ROTATED) {
+      req.server.log.info(`Refresh token rejected with status: ${result.status}`);
+      clearSessionCookies(reply);
+      return reply.code(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+        status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+        message: result.status === REFRESH_TOKEN_STATUS.REUSED
+          ? "Refresh token reuse detected. Please login again!"
+          : "Invalid or expired refresh token.",
+      });
+    }
+
+    const tokenData = sendSessionTokens(req, reply, result.tokens);
+
+    return reply.code(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Token refreshed successfully!",
+      data: tokenData
+    });
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${refreshAccessToken.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in refreshing token. Please contact admin!" });
+
+  }
+}
+
+
+export const forgotPassword = async (req: FastifyRequest<{ Body: { email: string } }>, reply: FastifyReply) => {
+  try {
+
+    req.server.log.info("Processing forgot password request.");
+
+    const { email } = req.body;
+    const successResponse = { status: HTTP_STATUS_MESSAGES.ACCEPTED, message: "If the email is registered, a password reset link has been sent." };
+
+    const existingUser = await findUserByEmail(email);
+
+    // same response for unknown emails so that registered emails can not be discovered
+    if (isInvalid(existingUser)) {
+      req.server.log.info("User with email does not exist. Skipping password reset mail.");
+      return reply.code(HTTP_STATUS_CODE.ACCEPTED).send(successResponse);
+    }
+
+    const resetToken = await createPasswordResetToken(existingUser);
+    const resetLink = `${config.APP_URL}/reset-password?token=${resetToken}`;
+
+    await sendMail({
+      to: existingUser.email,
+      subject: "Reset your password",
+      text: `Use the link below to reset your password. The link expires in ${config.PASSWORD_RESET_TOKEN_TIME / 60} minutes and can be used only once.\n\n${resetLink}`,
+    });
+
+    req.server.log.info("Password reset mail sent.");
+    return reply.code(HTTP_STATUS_CODE.ACCEPTED).send(successResponse);
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${forgotPassword.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in sending password reset mail. Please contact admin!" });
+
+  }
+}
+
+export const resetPassword = async (req: FastifyRequest<{ Body: { token: string, password: string } }>, reply: FastifyReply) => {
+  try {
+
+    req.server.log.info("Resetting user password.");
+
+    const { token, password } = req.body;
+
+    const existingUser = await findUserByPasswordResetToken(token);
+
+    if (isInvalid(existingUser)) {
+      req.server.log.info("Invalid or expired password reset token.");
+      return reply.code(HTTP_STATUS_CODE.BAD_REQUEST).send({ status: HTTP_STATUS_MESSAGES.BAD_REQUEST, message: "Invalid or expired password reset link!" });
+    }
+
+    await updateUser(existingUser.id, {
+      password: await hashPassword(password),
+      passwordResetTokenHash: null,
+      passwordResetExpiresAt: null,
+      // the reset link was delivered to the email, so it is verified as well
+      isActive: true,
+    });
+
+    req.server.log.info("Password updated. Revoking existing sessions of the user.");
+    await revokeAllUserSessions(String(existingUser.id));
+
+    clearSessionCookies(reply);
+    return reply.code(HTTP_STATUS_CODE.SUCCESS).send({ status: HTTP_STATUS_MESSAGES.SUCCESS, message: "Password reset successfully. Please login again!" });
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${resetPassword.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in resetting password. Please contact admin!" });
+
+  }
+}
+
+export const verifyEmail = async (req: FastifyRequest<{ Querystring: { token: string } }>, reply: FastifyReply) => {
+  try {
+
+    req.server.log.info("Verifying user email.");
+
+    let payload: EmailVerificationPayload;
+
+    try {
+      payload = req.server.jwt.verify<EmailVerificationPayload>(req.query.token);
+    } catch (error) {
+      req.server.log.info(`Email verification token verification failed: ${error.message}`);
+    }
+
+    if (isInvalid(payload?.userId) || payload?.purpose !== EMAIL_VERIFICATION_PURPOSE) {
+      req.server.log.info("Invalid email verification token.");
+      return reply.code(HTTP_STATUS_CODE.BAD_REQUEST).send({ status: HTTP_STATUS_MESSAGES.BAD_REQUEST, message: "Invalid or expired verification link!" });
+    }
+
+    const existingUser = await findUserById(payload.userId);
+
+    if (isInvalid(existingUser)) {
+      req.server.log.info("User of the verification token does not exist.");
+      return reply.code(HTTP_STATUS_CODE.NOT_FOUND).send({ status: HTTP_STATUS_MESSAGES.NOT_FOUND, message: 'User Not Found' });
+    }
+
+    // used already or replaced by a resent link
+    if (existingUser.emailVerificationTokenHash !== hashToken(req.query.token)) {
+      req.server.log.info("Email verification token is not the last sent one.");
+      return reply.code(HTTP_STATUS_CODE.BAD_REQUEST).send({ status: HTTP_STATUS_MESSAGES.BAD_REQUEST, message: "Invalid or expired verification link!" });
+    }
+
+    await updateUser(existingUser.id, { isActive: true, emailVerificationTokenHash: null });
+
+    req.server.log.info("User email verified.");
+    return reply.code(HTTP_STATUS_CODE.SUCCESS).send({ status: HTTP_STATUS_MESSAGES.SUCCESS, message: "Email verified successfully. You can login now!" });
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${verifyEmail.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in verifying email. Please contact admin!" });
+
+  }
+}
+
+export const resendVerificationEmail = async (req: FastifyRequest<{ Body: { email: string } }>, reply: FastifyReply) => {
+  try {
+
+    req.server.log.info("Processing resend verification email request.");
+
+    const { email } = req.body;
+    const successResponse = { status: HTTP_STATUS_MESSAGES.ACCEPTED, message: "If the email is registered and not verified, a verification link has been sent." };
+
+    const existingUser = await findUserByEmail(email);
+
+    // same response for unknown or verified emails so that registered emails can not be discovered
+    if (isInvalid(existingUser) || existingUser.isActive) {
+      req.server.log.info("User not found or already verified. Skipping verification mail.");
+      return reply.code(HTTP_STATUS_CODE.ACCEPTED).send(successResponse);
+    }
+
+    await sendVerificationMail(req.server, existingUser);
+
+    req.server.log.info("Verification mail sent.");
+    return reply.code(HTTP_STATUS_CODE.ACCEPTED).send(successResponse);
+
+  } catch (error) {
+
+    req.server.log.error(`Error in ${resendVerificationEmail.name} : ${error.message}`);
+    return reply.code(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({ status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR, message: "Error in sending verification mail. Please contact admin!" });
+
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Organization Controller
+ * -----------------------
+ * Handles creation, fetching and soft deletion of organizations (tenants).
+ *
+ * Features:
+ *  - Create or restore an organization
+ *  - Soft delete an organization (its roles, policies and assignments stop applying)
+ *  - Fetch an organization by ID
+ *  - Paginated list with optional search filter
+ *
+ * Organizations are managed from the global tenant only. Inside an organization
+ * only the organization itself is visible.
+ *
+ * Logging:
+ *  - `info` → High-level action flow
+ *  - `debug` → Request details & DB results for debugging
+ *
+ * Error Handling:
+ *  - Standardized HTTP status responses
+ *  - Internal errors are logged safely
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { isInvalid } from '../utils/util';
+import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
+import { createRecords, getListRecords, getSingleRecord, updateRecords } from '../utils/sql/sqlUtils';
+import { ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../utils/sql/queryParser';
+import { Organization } from '../entities/Organization';
+import { getRequestTenant } from '../utils/tenantUtil';
+
+
+/**
+ * Create or restore an organization
+ */
+export const createOrganization = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running createOrganization...");
+
+  try {
+    request.server.log.debug(`Request Body: ${JSON.stringify(request.body)}`);
+
+    const { name, description } = request.body as { name?: string; description?: string };
+    const normalizedName = name?.trim()?.toLowerCase();
+    const userId = request.user?.userId;
+
+    if (getRequestTenant(request)) {
+      request.server.log.info("Organization creation requested inside an organization.");
+      return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+        status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+        message: "Organizations can only be managed outside of an organization.",
+      });
+    }
+
+    if (isInvalid(normalizedName) || isInvalid(description)) {
+      request.server.log.info("Organization name or description missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Organization name and description are required.",
+      });
+    }
+
+    request.server.log.info(`Checking if organization '${normalizedName}' already exists...`);
+    const existing = await getSingleRecord(Organization, { where: { name: normalizedName } });
+
+    let result;
+
+    if (existing) {
+      request.server.log.info(`Organization exists. Restoring '${normalizedName}'.`);
+      await updateRecords(Organization, { id: existing.id }, {
+        description,
+        isDeleted: 0,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      });
+      result = await getSingleRecord(Organization, { where: { id: existing.id } });
+    } else {
+      request.server.log.info(`Creating new organization '${normalizedName}'.`);
+      result = await createRecords(Organization, {
+        name: normalizedName,
+        description,
+        isDeleted: 0,
+        createdBy: userId,
+        updatedBy: userId,
+      });
+    }
+
+    request.server.log.debug(`Organization Create/Restore Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.CREATED).send({
+      status: HTTP_STATUS_MESSAGES.CREATED,
+      message: "Organization created successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in createOrganization");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Soft delete an organization
+ */
+export const deleteOrganization = async (
+  request: FastifyRequest<{ Params: { organizationId: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running deleteOrganization...");
+
+  try {
+    request.server.log.debug(`Request Params: ${JSON.stringify(request.params)}`);
+
+    const { organizationId } = request.params;
+    const userId = request.user?.userId;
+
+    if (getRequestTenant(request)) {
+      request.server.log.info("Organization deletion requested inside an organization.");
+      return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+        status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+        message: "Organizations can only be managed outside of an organization.",
+      });
+    }
+
+    if (isInvalid(organizationId)) {
+      request.server.log.info("Organization ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Organization ID is required for deletion.",
+      });
+    }
+
+    request.server.log.info(`Soft deleting organization with id: ${organizationId}`);
+    const result = await updateRecords(Organization, { id: organizationId }, {
+      isDeleted: 1,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    });
+
+    request.server.log.debug(`Soft Delete Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Organization deleted successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in deleteOrganization");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Get organization by ID
+ */
+export const getOrganizationById = async (
+  request: FastifyRequest<{ Params: { organizationId: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running getOrganizationById...");
+
+  try {
+    const { organizationId } = request.params;
+    const tenant = getRequestTenant(request);
+    request.server.log.debug(`OrganizationId: ${organizationId}`);
+
+    if (isInvalid(organizationId)) {
+      request.server.log.info("Organization ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Organization ID is missing.",
+      });
+    }
+
+    const organization = tenant && tenant !== organizationId
+      ? null
+      : await getSingleRecord(Organization, { where: { id: organizationId, isDeleted: 0 } });
+
+    if (isInvalid(organization)) {
+      request.server.log.info(`No active organization found for ID: ${organizationId}`);
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "Organization not found.",
+      });
+    }
+
+    request.server.log.debug(`Fetched Organization Data: ${JSON.stringify(organization)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Organization fetched successfully.",
+      data: organization,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getOrganizationById");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Get paginated organizations with search
+ */
+export const getOrganizations = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running getOrganizations...");
+
+  try {
+    request.server.log.debug(`Query Params: ${JSON.stringify(request.query)}`);
+
+    const listQuery = parseListQuery(request.query as ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG);
+
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
+    }
+
+    // inside an organization only the organization itself is listed
+    const tenant = getRequestTenant(request);
+    if (tenant) {
+      listQuery.where = Array.isArray(listQuery.where)
+        ? listQuery.where.map((where) => ({ ...where, id: tenant }))
+        : { ...listQuery.where, id: tenant };
+    }
+
+    const result = await getListRecords(Organization, listQuery);
+
+    request.server.log.debug(`Pagination Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Organizations fetched successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getOrganizations");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
@@ -10,6 +10,8 @@
  *  - Soft delete permission
  *  - Update permission fully (PUT) or partially (PATCH)
  *  - Validate unique permission name
+ *  - Organization (tenant) permissions: the tenant's and the global permissions are visible,
+ *    only the tenant's own permissions can be changed (see tenantUtil)
  *
  * Logging:
  *  - `info` → High-level flow state
@@ -21,10 +23,12 @@
  */
 
 import { FastifyReply, FastifyRequest } from 'fastify';
-import { createRecords, getFilteredRecordsWithPagination, getSingleRecord, updateRecords } from '../utils/sql/sqlUtils';
+import { createRecords, getListRecords, getSingleRecord, updateRecords } from '../utils/sql/sqlUtils';
+import { ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../utils/sql/queryParser';
 import { Permission } from '../entities/Permission';
 import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
 import { isInvalid } from '../utils/util';
+import { findRenameClash, findTenantNameClash, getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere, withTenantScope } from '../utils/tenantUtil';
 
 
 /**
@@ -36,19 +40,18 @@ export const getPermissions = async (request: FastifyRequest, reply: FastifyRepl
   try {
     request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
 
-    const { page = '1', limit = '10', title = '' } = request.query as any;
+    const listQuery = parseListQuery(request.query as ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG);
 
-    const query: any = { isDeleted: false };
-    if (title?.trim()) {
-      request.server.log.info(`Applying permission name filter: ${title}`);
-      query.name = { $regex: title.trim(), $options: 'i' };
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
     }
 
-    const result = await getFilteredRecordsWithPagination(
-      Permission,
-      { page: Number(page), limit: Number(limit) },
-      query,
-    );
+    listQuery.where = withTenantScope(listQuery.where, getRequestTenant(request));
+    const result = await getListRecords(Permission, listQuery);
 
     request.server.log.debug(`Paginated permissions result: ${JSON.stringify(result)}`);
 
@@ -77,8 +80,8 @@ export const createPermission = async (request: FastifyRequest, reply: FastifyRe
 
   try {
     const { name, description } = request.body as any;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     const normalizedName = name?.trim()?.toLowerCase();
 
@@ -91,23 +94,32 @@ export const createPermission = async (request: FastifyRequest, reply: FastifyRe
     }
 
     request.server.log.info(`Checking if permission '${normalizedName}' exists...`);
-    const existing = await getSingleRecord(Permission, { where: { name: normalizedName } });
+    const existing = await getSingleRecord(Permission, { where: { name: normalizedName, ...getTenantOwnedWhere(tenant) } });
+
+    if (await findTenantNameClash(Permission, normalizedName, tenant)) {
+      request.server.log.info(`Permission name '${normalizedName}' is used by ${tenant ? "a global permission" : "an organization permission"}.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: tenant ? "Permission name is already used by a global permission." : "Permission name is already used by an organization.",
+      });
+    }
 
     let result;
 
     if (existing) {
       request.server.log.info(`Permission exists, restoring '${normalizedName}'.`);
-      await updateRecords(Permission, { name: normalizedName }, {
+      await updateRecords(Permission, { id: existing.id }, {
         description,
         isDeleted: false,
         updatedBy: userId,
       });
-      result = await getSingleRecord(Permission, { where: { name: normalizedName } });
+      result = await getSingleRecord(Permission, { where: { id: existing.id } });
     } else {
       request.server.log.info(`Creating new permission '${normalizedName}'.`);
       result = await createRecords(Permission, {
         name: normalizedName,
         description,
+        organizationId: tenant,
         isDeleted: false,
         createdBy: userId,
         updatedBy: userId,
@@ -142,8 +154,7 @@ export const deletePermission = async (request: FastifyRequest<{ Params: { permi
 
   try {
     const { permissionId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
 
     if (isInvalid(permissionId)) {
       request.server.log.info("Permission ID missing.");
@@ -153,7 +164,7 @@ export const deletePermission = async (request: FastifyRequest<{ Params: { permi
       });
     }
 
-    const result = await updateRecords(Permission, { id: permissionId }, {
+    const result = await updateRecords(Permission, { id: permissionId, ...getTenantOwnedWhere(getRequestTenant(request)) }, {
       isDeleted: true,
       updatedBy: userId,
     });
@@ -193,7 +204,7 @@ export const getPermissionById = async (request: FastifyRequest<{ Params: { perm
       });
     }
 
-    const permission = await getSingleRecord(Permission, { where: { id: permissionId, isDeleted: false } });
+    const permission = await getSingleRecord(Permission, { where: { id: permissionId, isDeleted: false, ...getTenantScopeWhere(getRequestTenant(request)) } });
 
     if (isInvalid(permission)) {
       request.server.log.info("Permission not found.");
@@ -231,8 +242,8 @@ export const updatePermission = async (request: FastifyRequest<{ Params: { permi
   try {
     const { permissionId } = request.params;
     const { name, description } = request.body;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Updating Permission ID: ${permissionId}`);
 
@@ -248,7 +259,15 @@ export const updatePermission = async (request: FastifyRequest<{ Params: { permi
     if (name) updateObj.name = name.trim().toLowerCase();
     if (description) updateObj.description = description;
 
-    const result = await updateRecords(Permission, { id: permissionId, isDeleted: false }, updateObj);
+    if (updateObj.name && await findRenameClash(Permission, permissionId, updateObj.name, tenant)) {
+      request.server.log.info(`Permission name '${updateObj.name}' is used by another permission.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Permission name is already used.",
+      });
+    }
+
+    const result = await updateRecords(Permission, { id: permissionId, isDeleted: false, ...getTenantOwnedWhere(tenant) }, updateObj);
 
     request.server.log.debug(`Update result: ${JSON.stringify(result)}`);
 
@@ -277,8 +296,8 @@ export const updatePermissionFields = async (request: FastifyRequest<{ Params: {
 
   try {
     const { permissionId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Patch update for: ${permissionId}`);
 
@@ -294,7 +313,15 @@ export const updatePermissionFields = async (request: FastifyRequest<{ Params: {
     if (request.body.name !== undefined) updateObj.name = request.body.name.toLowerCase();
     if (request.body.description !== undefined) updateObj.description = request.body.description;
 
-    const result = await updateRecords(Permission, { id: permissionId }, updateObj);
+    if (updateObj.name && await findRenameClash(Permission, permissionId, updateObj.name, tenant)) {
+      request.server.log.info(`Permission name '${updateObj.name}' is used by another permission.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Permission name is already used.",
+      });
+    }
+
+    const result = await updateRecords(Permission, { id: permissionId, ...getTenantOwnedWhere(tenant) }, updateObj);
 
     request.server.log.debug(`Partial update result: ${JSON.stringify(result)}`);
 
@@ -335,7 +362,7 @@ export const validatePermissionTitle = async (request: FastifyRequest<{ Querystr
     }
 
     const existing = await getSingleRecord(Permission, {
-      where: { name, isDeleted: false },
+      where: { name, isDeleted: false, ...getTenantScopeWhere(getRequestTenant(request)) },
     });
 
     return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
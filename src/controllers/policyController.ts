@@ -4,11 +4,18 @@
  * Handles creation, fetching, updating, and soft deletion of RBAC policies.
  *
  * Features:
- *  - Create Policy based on Role + Permission + Resource + Scope
+ *  - Create Policy based on Role + Permission + Resource + Scope, with an allow (default) or deny effect
  *  - Soft delete Policy
- *  - Fetch single or multiple Policies (paginated)
+ *  - Fetch single or multiple Policies (paginated, filterable by role/permission/resource/scope name, expandable relations)
+ *  - Policy matrix view (role → resource → permission → scope, same shape as RBACMap)
  *  - Update Policy (PUT)
  *  - Bulk Grant/Revoke Access Control (ACL)
+ *  - Policy decision check for a subject against (resource, permission, scope) tuples
+ *  - Optional ABAC condition on a policy (validated on create/update, see policyConditionUtil)
+ *  - Optional validity period (`validFrom` / `validUntil`) of a policy
+ *  - Dry run (`?dryRun=true`) of the mutations returning the effective permission diff
+ *  - Organization (tenant) scoping: the tenant's and the global policies are visible,
+ *    only the tenant's own policies can be changed (see tenantUtil)
  *
  * Logging Conventions:
  *  - `info` → Describes the action being performed
@@ -20,35 +27,107 @@
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { Not } from 'typeorm';
 import { isInvalid } from '../utils/util';
 import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
 import {
   createRecords,
   updateRecords,
   getSingleRecord,
-  getFilteredRecordsWithPagination,
+  getListRecords,
+  getAllRecordsWithFilter,
 } from '../utils/sql/sqlUtils';
+import { ListQueryConfig, ListQueryString, parseListQuery } from '../utils/sql/queryParser';
 import { Policy } from '../entities/Policy';
 import { Role } from '../entities/Role';
 import { Permission } from '../entities/Permission';
 import { Resource } from '../entities/Resource';
 import { Scope } from '../entities/Scope';
+import { AccessControl, AccessControlReport, applyAccessControlList } from '../utils/aclUtil';
+import { isDryRunRequest, previewPolicyChange } from '../utils/rbacPreviewUtil';
+import { AccessRequirement, buildRBACMap, decideAccess, EFFECTIVE_POLICY_FILTER, getRBACPolicyConditions, getRBACPolicyMap, getUserRoleNames, parseValidityPeriod, POLICY_EFFECT, PolicyEffect, PolicyType, ValidityPeriod } from '../utils/rbacUtil';
+import { PolicyCondition, validatePolicyCondition } from '../utils/policyConditionUtil';
+import { getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere, withTenantScope } from '../utils/tenantUtil';
+
+// policies have no name, so only date sorting and selection is allowed (no q search, filter by relation names instead)
+const POLICY_LIST_QUERY_CONFIG: ListQueryConfig = {
+  searchFields: [],
+  sortFields: ['createdAt', 'updatedAt'],
+  selectFields: ['isDeleted', 'createdAt', 'updatedAt'],
+  defaultSort: { createdAt: 'DESC' },
+};
+
+// relations of a policy which can be filtered by name and expanded
+const POLICY_RELATIONS = ['role', 'permission', 'resource', 'scope'] as const;
+
+type PolicyRelationQuery = Partial<Record<typeof POLICY_RELATIONS[number], string>>;
+
+interface PolicyListQueryString extends ListQueryString, PolicyRelationQuery {
+  expand?: string;
+}
+
+/**
+ * Builds the where condition filtering policies by role/permission/resource/scope name,
+ * the name filters are merged into the relation conditions of `base`
+ */
+const getPolicyRelationFilter = (query: PolicyRelationQuery = {}, base: Record<string, any> = {}) => {
+  const where: Record<string, any> = { ...base };
+
+  for (const relation of POLICY_RELATIONS) {
+    const name = query[relation]?.trim();
+    if (name) where[relation] = { ...base[relation], name: name.toLowerCase() };
+  }
+
+  return where;
+};
+
+/**
+ * Parses `expand=role,resource` into TypeORM relations
+ */
+const getPolicyExpandRelations = (expand: string = '', errors: string[]) => {
+  const relations: Record<string, boolean> = {};
+
+  for (const relation of expand.split(',').map((item) => item.trim()).filter((item) => item.length > 0)) {
+    if (!(POLICY_RELATIONS as readonly string[]).includes(relation)) {
+      errors.push(`Expanding '${relation}' is not allowed.`);
+      continue;
+    }
+    relations[relation] = true;
+  }
+
+  return relations;
+};
+
+
+interface PolicyBody extends ValidityPeriod {
+  role: string;
+  permission: string;
+  resource: string;
+  scope: string;
+  condition?: PolicyCondition | null;
+}
 
+// the route schemas check the body, this guards the names before they are lower cased
+const areValidNames = (...names: unknown[]) => names.every((name) => typeof name === 'string' && !isInvalid(name));
 
 /**
  * Create Policy
  */
-export const createPolicy = async (request: FastifyRequest, reply: FastifyReply) => {
+export const createPolicy = async (
+  request: FastifyRequest<{ Body: PolicyBody & { effect?: PolicyEffect } }>,
+  reply: FastifyReply
+) => {
   request.server.log.info("Running createPolicy...");
 
   try {
     request.server.log.debug(`Request Body: ${JSON.stringify(request.body)}`);
 
-    const { role, permission, resource, scope } = request.body as any;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const { role, permission, resource, scope, condition } = request.body;
+    const effect = request.body?.effect ?? POLICY_EFFECT.ALLOW;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
-    if (isInvalid(role) || isInvalid(permission) || isInvalid(resource) || isInvalid(scope)) {
+    if (!areValidNames(role, permission, resource, scope)) {
       request.server.log.info("Required fields missing.");
       return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
         status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
@@ -56,12 +135,38 @@ export const createPolicy = async (request: FastifyRequest, reply: FastifyReply)
       });
     }
 
+    if (!Object.values(POLICY_EFFECT).includes(effect)) {
+      request.server.log.info(`Invalid policy effect: ${effect}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "effect must be 'allow' or 'deny'.",
+      });
+    }
+
+    const conditionErrors = condition != null ? validatePolicyCondition(condition) : [];
+    if (conditionErrors.length > 0) {
+      request.server.log.info(`Invalid policy condition: ${conditionErrors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: conditionErrors.join(' '),
+      });
+    }
+
+    const { validFrom, validUntil, error: validityError } = parseValidityPeriod(request.body);
+    if (validityError) {
+      request.server.log.info(`Invalid validity period: ${validityError}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: validityError,
+      });
+    }
+
     request.server.log.info("Validating referenced entities...");
     const [roleDoc, permDoc, resDoc, scopeDoc] = await Promise.all([
-      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0 }}),
+      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
     ]);
 
     if (!roleDoc || !permDoc || !resDoc || !scopeDoc) {
@@ -72,18 +177,19 @@ export const createPolicy = async (request: FastifyRequest, reply: FastifyReply)
       });
     }
 
+    // soft deleted policies included: the unique constraint covers them, and not global policies (organizationId null) at all
     request.server.log.info("Checking for existing identical policy...");
-    const existingPolicy = await getSingleRecord(Policy, {
+    const existingPolicy = await getSingleRecord<Policy>(Policy, {
       where: {
-        role: roleDoc,
-        permission: permDoc,
-        resource: resDoc,
-        scope: scopeDoc,
-        isDeleted: 0,
+        role: { id: roleDoc.id },
+        permission: { id: permDoc.id },
+        resource: { id: resDoc.id },
+        scope: { id: scopeDoc.id },
+        ...getTenantOwnedWhere(tenant),
       },
     });
 
-    if (existingPolicy) {
+    if (existingPolicy && !existingPolicy.isDeleted) {
       request.server.log.info("Duplicate Policy detected.");
       return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
         status: HTTP_STATUS_MESSAGES.CONFLICT,
@@ -91,16 +197,46 @@ export const createPolicy = async (request: FastifyRequest, reply: FastifyReply)
       });
     }
 
-    request.server.log.info("Creating new policy...");
-    const newPolicy = await createRecords(Policy, {
+    // the dry run writes the same record as the actual create, a soft deleted policy is restored with it
+    const restoreData: Record<string, any> = {
+      effect,
+      condition: condition ?? null,
+      validFrom: validFrom ?? null,
+      validUntil: validUntil ?? null,
+      updatedBy: { id: userId },
+      isDeleted: 0,
+    };
+    const policyData: Record<string, any> = {
+      ...restoreData,
       role: roleDoc,
       permission: permDoc,
       resource: resDoc,
       scope: scopeDoc,
+      organizationId: tenant,
       createdBy: { id: userId },
-      updatedBy: { id: userId },
-      isDeleted: 0,
-    });
+    };
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing policy creation.`);
+      const diff = await previewPolicyChange(({ manager }) => existingPolicy
+        ? manager.update(Policy, { id: existingPolicy.id }, restoreData)
+        : manager.save(Policy, manager.create(Policy, policyData)), tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: policy was not created.",
+        data: diff,
+      });
+    }
+
+    let newPolicy;
+
+    if (existingPolicy) {
+      request.server.log.info(`Policy exists. Restoring policy ${existingPolicy.id}.`);
+      newPolicy = await updateRecords(Policy, { id: existingPolicy.id }, { ...restoreData, updatedAt: new Date() });
+    } else {
+      request.server.log.info("Creating new policy...");
+      newPolicy = await createRecords(Policy, policyData);
+    }
 
     request.server.log.debug(`Created Policy: ${JSON.stringify(newPolicy)}`);
 
@@ -133,8 +269,8 @@ export const deletePolicy = async (
   try {
     request.server.log.debug(`Params: ${JSON.stringify(request.params)}`);
     const { policyId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(policyId)) {
       request.server.log.info("Policy ID missing.");
@@ -144,14 +280,28 @@ export const deletePolicy = async (
       });
     }
 
-    const result = await updateRecords(Policy, { id: policyId, isDeleted: 0 }, {
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing deletion of policy ${policyId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Policy, { id: policyId, isDeleted: false, ...getTenantOwnedWhere(tenant) }, { isDeleted: true }),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: policy was not deleted.",
+        data: diff,
+      });
+    }
+
+    const result = await updateRecords(Policy, { id: policyId, isDeleted: 0, ...getTenantOwnedWhere(tenant) }, {
       isDeleted: 1,
       updatedBy: userId,
       updatedAt: new Date(),
     });
 
-    if (isInvalid(result)) {
-      request.server.log.info("Policy not found.");
+    // no row → the policy does not exist, is already deleted or belongs to another organization
+    if (!result.affected) {
+      request.server.log.info(`Policy ${policyId} not found.`);
       return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
         status: HTTP_STATUS_MESSAGES.NOT_FOUND,
         message: "Policy not found.",
@@ -184,14 +334,28 @@ export const getPolicies = async (request: FastifyRequest, reply: FastifyReply)
   try {
     request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
 
-    const { page = '1', limit = '10' } = request.query as any;
+    const query = (request.query ?? {}) as PolicyListQueryString;
+    const listQuery = parseListQuery(query, POLICY_LIST_QUERY_CONFIG);
+    const relations = getPolicyExpandRelations(query.expand, listQuery.errors);
 
-    const result = await getFilteredRecordsWithPagination(
-      Policy,
-      { page: Number(page), limit: Number(limit),  },
-      { isDeleted: 0 },
+    const relationFilter = getPolicyRelationFilter(query);
+    listQuery.where = withTenantScope(
+      Array.isArray(listQuery.where)
+        ? listQuery.where.map((where) => ({ ...where, ...relationFilter }))
+        : { ...listQuery.where, ...relationFilter },
+      getRequestTenant(request)
     );
 
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
+    }
+
+    const result = await getListRecords(Policy, listQuery, relations);
+
     request.server.log.debug(`Policies Result: ${JSON.stringify(result)}`);
 
     return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
@@ -211,6 +375,46 @@ export const getPolicies = async (request: FastifyRequest, reply: FastifyReply)
 };
 
 
+/**
+ * Get the policy matrix (role → resource → permission → scope → policy ID).
+ * Accepts the same role/permission/resource/scope name filters as the policy list.
+ */
+export const getPolicyMatrix = async (
+  request: FastifyRequest<{ Querystring: PolicyRelationQuery }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running getPolicyMatrix...");
+
+  try {
+    request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
+
+    // the policies of the RBAC map: none of the referenced records soft deleted, expired ones are left out by buildRBACMap
+    const policies = (await getAllRecordsWithFilter(Policy, {
+      where: { ...getPolicyRelationFilter(request.query, EFFECTIVE_POLICY_FILTER), ...getTenantScopeWhere(getRequestTenant(request)) },
+      relations: { role: true, permission: true, resource: true, scope: true },
+    })) as PolicyType[];
+
+    const matrix = await buildRBACMap(policies);
+
+    request.server.log.debug(`Policy Matrix: ${JSON.stringify(matrix)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Policy matrix fetched successfully.",
+      data: matrix,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getPolicyMatrix");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "Internal Server Error",
+    });
+  }
+};
+
+
 /**
  * Get Policy by ID
  */
@@ -231,7 +435,7 @@ export const getPolicyById = async (
       });
     }
 
-    const policy = await getSingleRecord(Policy, {where: { id: policyId, isDeleted: 0 }});
+    const policy = await getSingleRecord(Policy, {where: { id: policyId, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) }});
 
     if (isInvalid(policy)) {
       return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
@@ -261,20 +465,20 @@ export const getPolicyById = async (
  * Update Policy (PUT)
  */
 export const updatePolicy = async (
-  request: FastifyRequest<{ Params: { policyId: string }; Body: { role?: string; permission?: string; resource?: string; scope?: string } }>,
+  request: FastifyRequest<{ Params: { policyId: string }; Body: PolicyBody }>,
   reply: FastifyReply
 ) => {
   request.server.log.info("Running updatePolicy...");
 
   try {
     const { policyId } = request.params;
-    const { role, permission, resource, scope } = request.body;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const { role, permission, resource, scope, condition } = request.body;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Updating Policy: ${policyId}`);
 
-    if (isInvalid(policyId) || isInvalid(role) || isInvalid(permission) || isInvalid(resource) || isInvalid(scope)) {
+    if (isInvalid(policyId) || !areValidNames(role, permission, resource, scope)) {
       request.server.log.info("Missing required fields.");
       return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
         status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
@@ -282,11 +486,36 @@ export const updatePolicy = async (
       });
     }
 
+    const conditionErrors = condition != null ? validatePolicyCondition(condition) : [];
+    if (conditionErrors.length > 0) {
+      request.server.log.info(`Invalid policy condition: ${conditionErrors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: conditionErrors.join(' '),
+      });
+    }
+
+    const { validFrom, validUntil, error: validityError } = parseValidityPeriod(request.body);
+    if (validityError) {
+      request.server.log.info(`Invalid validity period: ${validityError}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: validityError,
+      });
+    }
+
+    // the condition and the validity bounds are kept when not sent, null removes them
+    const optionalFieldsUpdate = {
+      ...(condition !== undefined ? { condition } : {}),
+      ...(validFrom !== undefined ? { validFrom } : {}),
+      ...(validUntil !== undefined ? { validUntil } : {}),
+    };
+
     const [roleDoc, permDoc, resDoc, scopeDoc] = await Promise.all([
-      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0 }}),
+      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
+      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(tenant) }}),
     ]);
 
     if (!roleDoc || !permDoc || !resDoc || !scopeDoc) {
@@ -297,14 +526,48 @@ export const updatePolicy = async (
       });
     }
 
+    const duplicatePolicy = await getSingleRecord(Policy, {
+      where: {
+        id: Not(policyId),
+        role: { id: roleDoc.id },
+        permission: { id: permDoc.id },
+        resource: { id: resDoc.id },
+        scope: { id: scopeDoc.id },
+        ...getTenantOwnedWhere(tenant),
+      },
+    });
+
+    if (duplicatePolicy) {
+      request.server.log.info(`Policy ${duplicatePolicy.id} already grants the same role, permission, resource and scope.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "This policy already exists.",
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of policy ${policyId}`);
+      const diff = await previewPolicyChange(({ manager }) => manager.update(
+        Policy,
+        { id: policyId, isDeleted: false, ...getTenantOwnedWhere(tenant) },
+        { role: roleDoc, permission: permDoc, resource: resDoc, scope: scopeDoc, ...optionalFieldsUpdate } as Partial<Policy>
+      ), tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: policy was not updated.",
+        data: diff,
+      });
+    }
+
     const updatedPolicy = await updateRecords(
       Policy,
-      { id: policyId, isDeleted: 0 },
+      { id: policyId, isDeleted: 0, ...getTenantOwnedWhere(tenant) },
       {
         role: roleDoc,
         permission: permDoc,
         resource: resDoc,
         scope: scopeDoc,
+        ...optionalFieldsUpdate,
         updatedBy: { id: userId },
         updatedAt: new Date(),
       }
@@ -331,23 +594,22 @@ export const updatePolicy = async (
 
 
 /**
- * Bulk ACL Update:
- * accessControls: [
- *   { role, permission, resource, scope, grantOrRevoke: "grant" | "revoke" }
- * ]
+ * Bulk Grant/Revoke Access Control (ACL).
+ * Runs in one transaction; `?atomic=false` commits the valid items only.
  */
 export const updateAccessControlList = async (
-  request: FastifyRequest<{ Body: { accessControls: AccessControl[] } }>,
+  request: FastifyRequest<{ Body: { accessControls: AccessControl[] }; Querystring: { atomic?: string } }>,
   reply: FastifyReply
 ) => {
   request.server.log.info("Running updateAccessControlList...");
 
   try {
     const accessControls = request.body?.accessControls;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const atomic = request.query?.atomic !== 'false';
+    const tenant = getRequestTenant(request);
 
-    request.server.log.debug(`AccessControl Payload: ${JSON.stringify(accessControls)}`);
+    request.server.log.debug(`AccessControl Payload: ${JSON.stringify(accessControls)} | atomic: ${atomic}`);
 
     if (!Array.isArray(accessControls) || accessControls.length === 0) {
       return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
@@ -356,17 +618,36 @@ export const updateAccessControlList = async (
       });
     }
 
-    for (const ac of accessControls) {
-      if (ac.grantOrRevoke === "grant") {
-        await createAccessControl(ac, userId, request);
-      } else if (ac.grantOrRevoke === "revoke") {
-        await deleteAccessControl(ac, userId, request);
-      }
+    if (isDryRunRequest(request)) {
+      request.server.log.info("Dry run: previewing access control update.");
+      let report: AccessControlReport;
+      const diff = await previewPolicyChange(async (queryRunner) => {
+        report = await applyAccessControlList(accessControls, userId, atomic, queryRunner, tenant);
+      }, tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: access control was not updated.",
+        data: { ...diff, report },
+      });
+    }
+
+    const report = await applyAccessControlList(accessControls, userId, atomic, undefined, tenant);
+
+    request.server.log.debug(`AccessControl Report: ${JSON.stringify(report)}`);
+
+    if (!report.committed) {
+      request.server.log.info("Access control batch rolled back.");
+      return reply.status(HTTP_STATUS_CODE.UNPROCESSABLE_ENTITY).send({
+        status: HTTP_STATUS_MESSAGES.UNPROCESSABLE_ENTITY,
+        message: "Access control not updated. Some entries are invalid or not found.",
+        data: report,
+      });
     }
 
     return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
       status: HTTP_STATUS_MESSAGES.SUCCESS,
       message: "Access control updated successfully.",
+      data: report,
     });
 
   } catch (error: any) {
@@ -380,136 +661,96 @@ export const updateAccessControlList = async (
 };
 
 
-interface AccessControl {
-  role: string;
-  permission: string;
-  resource: string;
-  scope: string;
-  grantOrRevoke?: "grant" | "revoke";
+interface PolicyCheck extends AccessRequirement {
+  attributes?: Record<string, unknown>; // resource attributes for policy conditions
 }
 
-
-/**
- * Helper: Create/Restore Policy
- */
-export async function createAccessControl(ac: AccessControl, userId: string, request: FastifyRequest) {
-  request.server.log.info("Executing createAccessControl...");
-
-  try {
-    const { role, permission, resource, scope } = ac;
-
-    if (isInvalid(role) || isInvalid(permission) || isInvalid(resource) || isInvalid(scope)) {
-      request.server.log.info("Invalid AccessControl entry.");
-      return;
-    }
-
-    const [roleDoc, permDoc, resDoc, scopeDoc] = await Promise.all([
-      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0 }}),
-    ]);
-
-    if (!roleDoc || !permDoc || !resDoc || !scopeDoc) {
-      request.server.log.info("Invalid references in createAccessControl.");
-      return;
-    }
-
-    // Check if policy already exists (undeleted)
-    const existingPolicy = await getSingleRecord(Policy, {
-      where: {
-        role: roleDoc,
-        permission: permDoc,
-        resource: resDoc,
-        scope: scopeDoc,
-        isDeleted: 0,
-      },
-    });
-
-    if (existingPolicy) {
-      request.server.log.info("Policy already exists. Nothing to create.");
-      return existingPolicy;
-    }
-
-    request.server.log.info("Creating or restoring policy...");
-
-    const newPolicy = await createRecords(Policy, {
-      role: roleDoc,
-      permission: permDoc,
-      resource: resDoc,
-      scope: scopeDoc,
-      createdBy: { id: userId },
-      updatedBy: { id: userId },
-      isDeleted: 0,
-    });
-
-    request.server.log.debug(`Policy Created/Restored: ${JSON.stringify(newPolicy)}`);
-
-    return newPolicy;
-
-  } catch (error) {
-    request.server.log.error("Error in createAccessControl", error);
-    throw new Error("Failed to create policy.");
-  }
+interface PolicyCheckBody {
+  subject: { userId?: string; roles?: string[]; attributes?: Record<string, unknown> };
+  checks: PolicyCheck | PolicyCheck[];
+  environment?: Record<string, unknown>;
 }
 
 
-
 /**
- * Helper: Soft Delete Policy
+ * Policy decision check:
+ * subject: { userId } | { roles: string[] }, optional attributes for policy conditions
+ * checks: { resource, permission, scope, attributes? } | [{ resource, permission, scope, attributes? }]
+ * environment: optional, overrides the request environment (e.g. `now`) for policy conditions
+ * The check runs against the policies of the request's organization (tenant).
  */
-export async function deleteAccessControl(ac: AccessControl, userId: string, request: FastifyRequest) {
-  request.server.log.info("Executing deleteAccessControl...");
+export const checkPolicyAccess = async (
+  request: FastifyRequest<{ Body: PolicyCheckBody }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running checkPolicyAccess...");
 
   try {
-    const { role, permission, resource, scope } = ac;
+    request.server.log.debug(`Request Body: ${JSON.stringify(request.body)}`);
 
-    if (isInvalid(role) || isInvalid(permission) || isInvalid(resource) || isInvalid(scope)) {
-      request.server.log.info("Invalid AccessControl entry.");
-      return;
-    }
+    const subject = request.body?.subject;
+    const rawChecks = request.body?.checks;
+    const checks = Array.isArray(rawChecks) ? rawChecks : (rawChecks ? [rawChecks] : []);
 
-    const [roleDoc, permDoc, resDoc, scopeDoc] = await Promise.all([
-      getSingleRecord(Role, { where: { name: role.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Permission, { where: { name: permission.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Resource, { where: { name: resource.toLowerCase(), isDeleted: 0 }}),
-      getSingleRecord(Scope, { where: { name: scope.toLowerCase(), isDeleted: 0 }}),
-    ]);
-
-    if (!roleDoc || !permDoc || !resDoc || !scopeDoc) {
-      request.server.log.info("Invalid references in deleteAccessControl.");
-      return;
+    if (isInvalid(subject) || (isInvalid(subject.userId) && isInvalid(subject.roles))) {
+      request.server.log.info("Subject missing in request.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "subject with userId or roles is required.",
+      });
     }
 
-    const existingPolicy = await getSingleRecord(Policy, {
-      where: {
-        role: roleDoc,
-        permission: permDoc,
-        resource: resDoc,
-        scope: scopeDoc,
-        isDeleted: 0,
-      },
-    });
-
-    if (!existingPolicy) {
-      request.server.log.info("No matching active policy to delete.");
-      return;
+    if (isInvalid(checks) || checks.some((check) => isInvalid(check?.resource) || isInvalid(check?.permission))) {
+      request.server.log.info("Invalid checks in request.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "checks must contain resource and permission for every entry.",
+      });
     }
 
-    request.server.log.info("Soft deleting policy...");
-
-    const result = await updateRecords(
-      Policy,
-      { id: (existingPolicy as any).id },
-      { isDeleted: 1, updatedBy: { id: userId }, updatedAt: new Date() }
-    );
+    const tenant = getRequestTenant(request);
+
+    request.server.log.info("Resolving subject roles...");
+    const roles = !isInvalid(subject.roles)
+      ? subject.roles.map((role) => role.toUpperCase())
+      : await getUserRoleNames(subject.userId, tenant);
+
+    const policiesMap = await getRBACPolicyMap(tenant);
+    const conditions = await getRBACPolicyConditions(tenant);
+
+    const subjectContext = { ...subject.attributes, userId: subject.userId, roles };
+    const environment = { now: new Date().toISOString(), ...request.body?.environment };
+
+    const results = checks.map((check) => {
+      const context = { subject: subjectContext, resource: check.attributes ?? {}, environment };
+      const decision = decideAccess(policiesMap, roles, check, conditions, context);
+      const match = decision.match;
+      return {
+        resource: check.resource,
+        permission: check.permission,
+        scope: check.scope ?? null,
+        allowed: decision.allowed,
+        role: match?.role ?? null,
+        policyId: match?.policyId ?? null,
+        conditional: match?.conditional ?? false,
+        deniedByPolicyId: decision.deniedBy?.policyId ?? null,
+      };
+    });
 
-    request.server.log.debug(`Policy deleted: ${JSON.stringify(result)}`);
+    request.server.log.debug(`Policy check results: ${JSON.stringify(results)}`);
 
-    return result;
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Policy check completed.",
+      data: { roles, results },
+    });
 
-  } catch (error) {
-    request.server.log.error("Error in deleteAccessControl", error);
-    throw new Error("Failed to delete policy.");
+  } catch (error: any) {
+    request.server.log.info("Error in checkPolicyAccess");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "Internal Server Error",
+    });
   }
-}
+};
@@ -11,6 +11,9 @@
  *  - Full update (PUT)
  *  - Partial field update (PATCH)
  *  - Validate unique resource name
+ *  - Dry run (`?dryRun=true`) of create/update/delete returning the effective permission diff
+ *  - Organization (tenant) resources: the tenant's and the global resources are visible,
+ *    only the tenant's own resources can be changed (see tenantUtil)
  *
  * Logging:
  *  - `info` → High-level action flow
@@ -28,9 +31,12 @@ import {
   createRecords,
   updateRecords,
   getSingleRecord,
-  getFilteredRecordsWithPagination,
+  getListRecords,
 } from '../utils/sql/sqlUtils';
+import { ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../utils/sql/queryParser';
 import { Resource } from '../entities/Resource';
+import { isDryRunRequest, previewPolicyChange } from '../utils/rbacPreviewUtil';
+import { findRenameClash, findTenantNameClash, getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere, withTenantScope } from '../utils/tenantUtil';
 
 
 /**
@@ -44,8 +50,8 @@ export const createResource = async (request: FastifyRequest, reply: FastifyRepl
 
     const { name, description } = request.body as any;
     const normalizedName = name?.trim()?.toLowerCase();
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(normalizedName) || isInvalid(description)) {
       request.server.log.info("Resource name or description missing.");
@@ -56,13 +62,34 @@ export const createResource = async (request: FastifyRequest, reply: FastifyRepl
     }
 
     request.server.log.info(`Checking if resource '${normalizedName}' already exists...`);
-    const existingResource = await getSingleRecord(Resource, {where : { name: normalizedName }});
+    const existingResource = await getSingleRecord(Resource, {where : { name: normalizedName, ...getTenantOwnedWhere(tenant) }});
+
+    if (await findTenantNameClash(Resource, normalizedName, tenant)) {
+      request.server.log.info(`Resource name '${normalizedName}' is used by ${tenant ? "a global resource" : "an organization resource"}.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: tenant ? "Resource name is already used by a global resource." : "Resource name is already used by an organization.",
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing creation of resource '${normalizedName}'.`);
+      // only restoring a soft deleted resource can change the effective permissions
+      const diff = await previewPolicyChange(async ({ manager }) => {
+        if (existingResource) await manager.update(Resource, { id: existingResource.id }, { isDeleted: false });
+      }, tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: resource was not created.",
+        data: diff,
+      });
+    }
 
     let result;
 
     if (existingResource) {
       request.server.log.info(`Existing resource found. Restoring '${normalizedName}'`);
-      result = await updateRecords(Resource, { name: normalizedName }, {
+      result = await updateRecords(Resource, { id: existingResource.id }, {
         description,
         isDeleted: 0,
         updatedBy: userId,
@@ -73,6 +100,7 @@ export const createResource = async (request: FastifyRequest, reply: FastifyRepl
       result = await createRecords(Resource, {
         name: normalizedName,
         description,
+        organizationId: tenant,
         isDeleted: 0,
         createdBy: userId,
         updatedBy: userId,
@@ -111,8 +139,8 @@ export const deleteResource = async (
     request.server.log.debug(`Request Params: ${JSON.stringify(request.params)}`);
 
     const { resourceId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(resourceId)) {
       request.server.log.info("Resource ID missing.");
@@ -122,8 +150,21 @@ export const deleteResource = async (
       });
     }
 
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing deletion of resource ${resourceId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Resource, { id: resourceId, ...getTenantOwnedWhere(tenant) }, { isDeleted: true }),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: resource was not deleted.",
+        data: diff,
+      });
+    }
+
     request.server.log.info(`Soft deleting resource with id: ${resourceId}`);
-    const result = await updateRecords(Resource, { id: resourceId }, {
+    const result = await updateRecords(Resource, { id: resourceId, ...getTenantOwnedWhere(tenant) }, {
       isDeleted: 1,
       updatedBy: userId,
       updatedAt: new Date(),
@@ -169,7 +210,7 @@ export const getResourceById = async (
       });
     }
 
-    const resource = await getSingleRecord(Resource,{ where: { id: resourceId, isDeleted: 0 }});
+    const resource = await getSingleRecord(Resource,{ where: { id: resourceId, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) }});
 
     if (isInvalid(resource)) {
       request.server.log.info(`No active resource found for ID: ${resourceId}`);
@@ -207,19 +248,18 @@ export const getResources = async (request: FastifyRequest, reply: FastifyReply)
   try {
     request.server.log.debug(`Query Params: ${JSON.stringify(request.query)}`);
 
-    const { page = '1', limit = '10', title = '' } = request.query as any;
+    const listQuery = parseListQuery(request.query as ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG);
 
-    const query: any = { isDeleted: 0 };
-    if (title?.trim()) {
-      request.server.log.info(`Applying name filter: '${title}'`);
-      query.name = { $regex: title.trim(), $options: 'i' };
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
     }
 
-    const result = await getFilteredRecordsWithPagination(
-      Resource,
-      { page: Number(page), limit: Number(limit), },
-      query,
-    );
+    listQuery.where = withTenantScope(listQuery.where, getRequestTenant(request));
+    const result = await getListRecords(Resource, listQuery);
 
     request.server.log.debug(`Pagination Result: ${JSON.stringify(result)}`);
 
@@ -252,8 +292,8 @@ export const updateResource = async (
   try {
     const { resourceId } = request.params;
     const { name, description } = request.body;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Updating Resource: ${resourceId}`);
 
@@ -269,7 +309,28 @@ export const updateResource = async (
     if (name) updateData.name = name.trim().toLowerCase();
     if (description) updateData.description = description;
 
-    const result = await updateRecords(Resource, { id: resourceId, isDeleted: 0 }, updateData);
+    if (updateData.name && await findRenameClash(Resource, resourceId, updateData.name, tenant)) {
+      request.server.log.info(`Resource name '${updateData.name}' is used by another resource.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Resource name is already used.",
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of resource ${resourceId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Resource, { id: resourceId, isDeleted: false, ...getTenantOwnedWhere(tenant) }, updateData),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: resource was not updated.",
+        data: diff,
+      });
+    }
+
+    const result = await updateRecords(Resource, { id: resourceId, isDeleted: 0, ...getTenantOwnedWhere(tenant) }, updateData);
 
     request.server.log.debug(`Update Result: ${JSON.stringify(result)}`);
 
@@ -301,8 +362,8 @@ export const updateResourceFields = async (
 
   try {
     const { resourceId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`ResourceId: ${resourceId} | Body: ${JSON.stringify(request.body)}`);
 
@@ -318,7 +379,28 @@ export const updateResourceFields = async (
     if (request.body.name !== undefined) updateObj.name = request.body.name.trim().toLowerCase();
     if (request.body.description !== undefined) updateObj.description = request.body.description;
 
-    const result = await updateRecords(Resource, { id: resourceId }, updateObj);
+    if (updateObj.name && await findRenameClash(Resource, resourceId, updateObj.name, tenant)) {
+      request.server.log.info(`Resource name '${updateObj.name}' is used by another resource.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Resource name is already used.",
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of resource ${resourceId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Resource, { id: resourceId, ...getTenantOwnedWhere(tenant) }, updateObj),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: resource was not updated.",
+        data: diff,
+      });
+    }
+
+    const result = await updateRecords(Resource, { id: resourceId, ...getTenantOwnedWhere(tenant) }, updateObj);
 
     request.server.log.debug(`Partial Update Result: ${JSON.stringify(result)}`);
 
@@ -361,7 +443,7 @@ export const validateResourceTitle = async (
       });
     }
 
-    const existing = await getSingleRecord(Resource, {where: { name, isDeleted: 0 }});
+    const existing = await getSingleRecord(Resource, {where: { name, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) }});
 
     request.server.log.info("Resource title validation complete.");
 
@@ -11,6 +11,11 @@
  *  - Fully update role (PUT)
  *  - Partially update role fields (PATCH)
  *  - Validate unique role name
+ *  - Role hierarchy (`parentId`), rejecting parents which would create a cycle
+ *  - Explain the effective grants of a role and the ancestor each one comes from
+ *  - Dry run (`?dryRun=true`) of create/update/delete returning the effective permission diff
+ *  - Organization (tenant) roles: the tenant's and the global roles are visible,
+ *    only the tenant's own roles can be changed (see tenantUtil)
  *
  * Logging:
  *  - `info` logs describe the high-level action flow.
@@ -27,10 +32,48 @@ import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
 import {
   createRecords,
   getSingleRecord,
-  getFilteredRecordsWithPagination,
+  getListRecords,
   updateRecords,
 } from '../utils/sql/sqlUtils';
+import { ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../utils/sql/queryParser';
 import { Role } from '../entities/Role';
+import { isDryRunRequest, previewPolicyChange } from '../utils/rbacPreviewUtil';
+import { explainRoleGrants, getRoleAncestors, getRoleHierarchy, wouldCreateRoleCycle } from '../utils/rbacUtil';
+import { findRenameClash, findTenantNameClash, getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere, withTenantScope } from '../utils/tenantUtil';
+
+
+interface RoleParentError {
+  code: number;
+  status: string;
+  message: string;
+}
+
+/**
+ * Validates the requested parent of a role (roleId is undefined for new roles).
+ * The parent must be visible inside the tenant, a role of the tenant or a global role.
+ * Returns the error to reply with, or null when the parent can be used.
+ */
+const validateRoleParent = async (roleId: string | undefined, parentId: string, tenant: string | null): Promise<RoleParentError | null> => {
+  const parent = await getSingleRecord(Role, { where: { id: parentId, isDeleted: 0, ...getTenantScopeWhere(tenant) } });
+
+  if (isInvalid(parent)) {
+    return {
+      code: HTTP_STATUS_CODE.BAD_REQUEST,
+      status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+      message: "Parent role not found.",
+    };
+  }
+
+  if (roleId && await wouldCreateRoleCycle(roleId, parentId)) {
+    return {
+      code: HTTP_STATUS_CODE.CONFLICT,
+      status: HTTP_STATUS_MESSAGES.CONFLICT,
+      message: "Parent role would create a cycle in the role hierarchy.",
+    };
+  }
+
+  return null;
+};
 
 
 /**
@@ -42,11 +85,12 @@ export const createRole = async (request: FastifyRequest, reply: FastifyReply) =
   try {
     request.server.log.debug(`Request Body: ${JSON.stringify(request.body)}`);
 
-    const body = request.body as { name?: string; description?: string };
+    const body = request.body as { name?: string; description?: string; parentId?: string | null };
     const name = body?.name?.trim()?.toLowerCase();
     const description = body?.description;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const parentId = body?.parentId;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(name) || isInvalid(description)) {
       request.server.log.info("Role name or description missing.");
@@ -57,14 +101,49 @@ export const createRole = async (request: FastifyRequest, reply: FastifyReply) =
     }
 
     request.server.log.info(`Checking if role '${name}' already exists...`);
-    const existingRole = await getSingleRecord(Role, { where: { name: name } },);
+    const existingRole = await getSingleRecord(Role, { where: { name: name, ...getTenantOwnedWhere(tenant) } },);
+
+    if (await findTenantNameClash(Role, name, tenant)) {
+      request.server.log.info(`Role name '${name}' is used by ${tenant ? "a global role" : "an organization role"}.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: tenant ? "Role name is already used by a global role." : "Role name is already used by an organization.",
+      });
+    }
+
+    if (parentId) {
+      const parentError = await validateRoleParent(existingRole?.id, parentId, tenant);
+      if (parentError) {
+        request.server.log.info(`Invalid parent role ${parentId}: ${parentError.message}`);
+        return reply.status(parentError.code).send({
+          status: parentError.status,
+          message: parentError.message,
+        });
+      }
+    }
+
+    const parentUpdate = parentId !== undefined ? { parent: parentId ? { id: parentId } : null } : {};
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing creation of role '${name}'.`);
+      // only restoring a soft deleted role can change the effective permissions
+      const diff = await previewPolicyChange(async ({ manager }) => {
+        if (existingRole) await manager.update(Role, { id: existingRole.id }, { isDeleted: false, ...parentUpdate });
+      }, tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: role was not created.",
+        data: diff,
+      });
+    }
 
     let result;
 
     if (existingRole) {
       request.server.log.info(`Role exists. Restoring role '${name}'.`);
-      result = await updateRecords(Role, { name }, {
+      result = await updateRecords(Role, { id: existingRole.id }, {
         description,
+        ...parentUpdate,
         isDeleted: 0,
         updatedBy: userId,
         updatedAt: new Date(),
@@ -74,6 +153,8 @@ export const createRole = async (request: FastifyRequest, reply: FastifyReply) =
       result = await createRecords(Role, {
         name,
         description,
+        ...parentUpdate,
+        organizationId: tenant,
         createdBy: userId,
         updatedBy: userId,
         isDeleted: 0,
@@ -112,8 +193,8 @@ export const deleteRole = async (
     request.server.log.debug(`Request Params: ${JSON.stringify(request.params)}`);
 
     const { roleId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(roleId)) {
       request.server.log.info("Role ID missing.");
@@ -123,8 +204,21 @@ export const deleteRole = async (
       });
     }
 
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing deletion of role ${roleId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Role, { id: roleId, ...getTenantOwnedWhere(tenant) }, { isDeleted: true }),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: role was not deleted.",
+        data: diff,
+      });
+    }
+
     request.server.log.info(`Soft deleting role with id: ${roleId}`);
-    const result = await updateRecords(Role, { id: roleId }, {
+    const result = await updateRecords(Role, { id: roleId, ...getTenantOwnedWhere(tenant) }, {
       isDeleted: 1,
       updatedBy: userId,
       updatedAt: new Date(),
@@ -170,7 +264,7 @@ export const getRoleById = async (
       });
     }
 
-    const role = await getSingleRecord(Role,{ where: { id: roleId, isDeleted: 0 }});
+    const role = await getSingleRecord(Role,{ where: { id: roleId, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) }, relations: { parent: true }});
 
     if (isInvalid(role)) {
       request.server.log.info(`No active role found for ID: ${roleId}`);
@@ -208,19 +302,18 @@ export const getRoles = async (request: FastifyRequest, reply: FastifyReply) =>
   try {
     request.server.log.debug(`Query Params: ${JSON.stringify(request.query)}`);
 
-    const { page = '1', limit = '10', title = '' } = request.query as any;
+    const listQuery = parseListQuery(request.query as ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG);
 
-    const query: any = { isDeleted: 0 };
-    if (title?.trim()) {
-      request.server.log.info(`Applying role name filter: ${title}`);
-      query.name = { $regex: title.trim(), $options: 'i' };
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
     }
 
-    const result = await getFilteredRecordsWithPagination(
-      Role,
-      { page: Number(page), limit: Number(limit) },
-      query,
-    );
+    listQuery.where = withTenantScope(listQuery.where, getRequestTenant(request));
+    const result = await getListRecords(Role, listQuery);
 
     request.server.log.debug(`Pagination Result: ${JSON.stringify(result)}`);
 
@@ -245,16 +338,16 @@ export const getRoles = async (request: FastifyRequest, reply: FastifyReply) =>
  * Update full role (PUT)
  */
 export const updateRole = async (
-  request: FastifyRequest<{ Params: { roleId: string }; Body: { name?: string; description?: string } }>,
+  request: FastifyRequest<{ Params: { roleId: string }; Body: { name?: string; description?: string; parentId?: string | null } }>,
   reply: FastifyReply
 ) => {
   request.server.log.info("Running updateRole...");
 
   try {
     const { roleId } = request.params;
-    const { name, description } = request.body;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const { name, description, parentId } = request.body;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Updating Role ID: ${roleId}`);
 
@@ -269,9 +362,42 @@ export const updateRole = async (
     const updateData: any = { updatedBy: userId, updatedAt: new Date() };
     if (name) updateData.name = name.trim().toLowerCase();
     if (description) updateData.description = description;
+    if (parentId !== undefined) updateData.parent = parentId ? { id: parentId } : null;
+
+    if (updateData.name && await findRenameClash(Role, roleId, updateData.name, tenant)) {
+      request.server.log.info(`Role name '${updateData.name}' is used by another role.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Role name is already used.",
+      });
+    }
+
+    if (parentId) {
+      const parentError = await validateRoleParent(roleId, parentId, tenant);
+      if (parentError) {
+        request.server.log.info(`Invalid parent role ${parentId}: ${parentError.message}`);
+        return reply.status(parentError.code).send({
+          status: parentError.status,
+          message: parentError.message,
+        });
+      }
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of role ${roleId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Role, { id: roleId, isDeleted: false, ...getTenantOwnedWhere(tenant) }, updateData),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: role was not updated.",
+        data: diff,
+      });
+    }
 
     request.server.log.info(`Updating role ${roleId}`);
-    const result = await updateRecords(Role, { id: roleId, isDeleted: 0 }, updateData);
+    const result = await updateRecords(Role, { id: roleId, isDeleted: 0, ...getTenantOwnedWhere(tenant) }, updateData);
 
     request.server.log.debug(`Update Result: ${JSON.stringify(result)}`);
 
@@ -296,15 +422,15 @@ export const updateRole = async (
  * Partially update role (PATCH)
  */
 export const updateRoleFields = async (
-  request: FastifyRequest<{ Params: { roleId: string }; Body: { name?: string; description?: string } }>,
+  request: FastifyRequest<{ Params: { roleId: string }; Body: { name?: string; description?: string; parentId?: string | null } }>,
   reply: FastifyReply
 ) => {
   request.server.log.info("Running updateRoleFields...");
 
   try {
     const { roleId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`RoleId: ${roleId} | Body: ${JSON.stringify(request.body)}`);
 
@@ -319,9 +445,42 @@ export const updateRoleFields = async (
     const updateObj: any = { updatedBy: userId, updatedAt: new Date() };
     if (request.body.name !== undefined) updateObj.name = request.body.name.trim().toLowerCase();
     if (request.body.description !== undefined) updateObj.description = request.body.description;
+    if (request.body.parentId !== undefined) updateObj.parent = request.body.parentId ? { id: request.body.parentId } : null;
+
+    if (updateObj.name && await findRenameClash(Role, roleId, updateObj.name, tenant)) {
+      request.server.log.info(`Role name '${updateObj.name}' is used by another role.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Role name is already used.",
+      });
+    }
+
+    if (request.body.parentId) {
+      const parentError = await validateRoleParent(roleId, request.body.parentId, tenant);
+      if (parentError) {
+        request.server.log.info(`Invalid parent role ${request.body.parentId}: ${parentError.message}`);
+        return reply.status(parentError.code).send({
+          status: parentError.status,
+          message: parentError.message,
+        });
+      }
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of role ${roleId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Role, { id: roleId, ...getTenantOwnedWhere(tenant) }, updateObj),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: role was not updated.",
+        data: diff,
+      });
+    }
 
     request.server.log.info(`Partially updating role ${roleId}`);
-    const result = await updateRecords(Role, { id: roleId }, updateObj);
+    const result = await updateRecords(Role, { id: roleId, ...getTenantOwnedWhere(tenant) }, updateObj);
 
     request.server.log.debug(`Partial Update Result: ${JSON.stringify(result)}`);
 
@@ -364,7 +523,7 @@ export const validateRoleTitle = async (
       });
     }
 
-    const existing = await getSingleRecord(Role, {where: { name, isDeleted: 0 }});
+    const existing = await getSingleRecord(Role, {where: { name, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) }});
 
     request.server.log.info("Validation completed.");
 
@@ -382,3 +541,59 @@ export const validateRoleTitle = async (
     });
   }
 };
+
+
+/**
+ * Explain the effective grants of a role: every grant lists the role it comes from
+ * (the role itself or an ancestor) and the inheritance path
+ */
+export const explainRoleGrantsById = async (
+  request: FastifyRequest<{ Params: { roleId: string }; Querystring: { resource?: string; permission?: string; scope?: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running explainRoleGrantsById...");
+
+  try {
+    const { roleId } = request.params;
+    request.server.log.debug(`RoleId: ${roleId} | Query: ${JSON.stringify(request.query)}`);
+
+    if (isInvalid(roleId)) {
+      request.server.log.info("Role ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Role ID is missing.",
+      });
+    }
+
+    const tenant = getRequestTenant(request);
+    const role = await getSingleRecord(Role, { where: { id: roleId, isDeleted: 0, ...getTenantScopeWhere(tenant) } });
+
+    if (isInvalid(role)) {
+      request.server.log.info(`No active role found for ID: ${roleId}`);
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "Role not found.",
+      });
+    }
+
+    const { resource, permission, scope } = request.query ?? {};
+    const grants = await explainRoleGrants(role.name, { resource, permission, scope }, tenant);
+    const ancestors = getRoleAncestors(role.name, await getRoleHierarchy(tenant)).slice(1);
+
+    request.server.log.debug(`Role Grants Explanation: ${JSON.stringify(grants)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Role grants explained successfully.",
+      data: { role: role.name.toUpperCase(), ancestors, grants },
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in explainRoleGrantsById");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
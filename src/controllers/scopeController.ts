@@ -1,8 +1,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { isInvalid } from '../utils/util';
 import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
-import { createRecords, getFilteredRecordsWithPagination, getSingleRecord, updateRecords } from '../utils/sql/sqlUtils';
+import { createRecords, getListRecords, getSingleRecord, updateRecords } from '../utils/sql/sqlUtils';
+import { ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../utils/sql/queryParser';
 import { Scope } from '../entities/Scope';
+import { isDryRunRequest, previewPolicyChange } from '../utils/rbacPreviewUtil';
+import { findRenameClash, findTenantNameClash, getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere, withTenantScope } from '../utils/tenantUtil';
 
 /**
  * Scope Controller
@@ -17,6 +20,9 @@ import { Scope } from '../entities/Scope';
  *  - Fully update scope fields (PUT)
  *  - Partially update scope fields (PATCH)
  *  - Validate unique scope name
+ *  - Dry run (`?dryRun=true`) of create/update/delete returning the effective permission diff
+ *  - Organization (tenant) scopes: the tenant's and the global scopes are visible,
+ *    only the tenant's own scopes can be changed (see tenantUtil)
  *
  * Logging:
  *  - Only `info` and `debug` logs are used to ensure clean, meaningful tracing.
@@ -42,8 +48,8 @@ export const createScope = async (request: FastifyRequest, reply: FastifyReply)
     request.server.log.debug(`Received Body: ${JSON.stringify(request.body)}`);
 
     const { name, description } = request.body as { name?: string; description?: string };
-    // @ts-ignore
     const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     const normalizedName = name?.trim()?.toLowerCase();
 
@@ -56,13 +62,34 @@ export const createScope = async (request: FastifyRequest, reply: FastifyReply)
     }
 
     request.server.log.info(`Checking if scope '${normalizedName}' already exists...`);
-    const existingScope = await getSingleRecord(Scope, { where: { name: normalizedName } });
+    const existingScope = await getSingleRecord(Scope, { where: { name: normalizedName, ...getTenantOwnedWhere(tenant) } });
+
+    if (await findTenantNameClash(Scope, normalizedName, tenant)) {
+      request.server.log.info(`Scope name '${normalizedName}' is used by ${tenant ? "a global scope" : "an organization scope"}.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: tenant ? "Scope name is already used by a global scope." : "Scope name is already used by an organization."
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing creation of scope '${normalizedName}'.`);
+      // only restoring a soft deleted scope can change the effective permissions
+      const diff = await previewPolicyChange(async ({ manager }) => {
+        if (existingScope) await manager.update(Scope, { id: existingScope.id }, { isDeleted: false });
+      }, tenant);
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: scope was not created.",
+        data: diff,
+      });
+    }
 
     let result;
 
     if (existingScope) {
       request.server.log.info(`Existing scope found. Restoring and updating scope '${normalizedName}'.`);
-      result = await updateRecords(Scope, { name: normalizedName }, {
+      result = await updateRecords(Scope, { id: existingScope.id }, {
         description,
         isDeleted: 0,
         updatedBy: userId,
@@ -73,6 +100,7 @@ export const createScope = async (request: FastifyRequest, reply: FastifyReply)
       result = await createRecords(Scope, {
         name: normalizedName,
         description,
+        organizationId: tenant,
         createdBy: userId,
         updatedBy: userId,
         isDeleted: 0
@@ -107,8 +135,8 @@ export const deleteScope = async (request: FastifyRequest<{ Params: { scopeId: s
   try {
     request.server.log.debug(`Params: ${JSON.stringify(request.params)}`);
     const { scopeId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     if (isInvalid(scopeId)) {
       request.server.log.info("ScopeId missing in request.");
@@ -118,8 +146,21 @@ export const deleteScope = async (request: FastifyRequest<{ Params: { scopeId: s
       });
     }
 
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing deletion of scope ${scopeId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, { isDeleted: true }),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: scope was not deleted.",
+        data: diff,
+      });
+    }
+
     request.server.log.info(`Soft deleting scope with id: ${scopeId}`);
-    const result = await updateRecords(Scope, { id: scopeId }, { isDeleted: 1, updatedBy: userId });
+    const result = await updateRecords(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, { isDeleted: 1, updatedBy: userId });
 
     request.server.log.debug(`Soft Delete Result: ${JSON.stringify(result)}`);
 
@@ -149,15 +190,18 @@ export const getScopes = async (request: FastifyRequest, reply: FastifyReply) =>
   try {
     request.server.log.debug(`Query: ${JSON.stringify(request.query)}`);
 
-    const { page = '1', limit = '10', title = '' } = request.query as any;
+    const listQuery = parseListQuery(request.query as ListQueryString, NAMED_ENTITY_LIST_QUERY_CONFIG);
 
-    const filters: any = { isDeleted: 0 };
-    if (title?.trim()) {
-      request.server.log.info(`Applying title filter: ${title}`);
-      filters.name = { $regex: title.trim(), $options: 'i' };
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
     }
 
-    const result = await getFilteredRecordsWithPagination(Scope, { page: Number(page), limit: Number(limit) }, filters);
+    listQuery.where = withTenantScope(listQuery.where, getRequestTenant(request));
+    const result = await getListRecords(Scope, listQuery);
 
     request.server.log.debug(`Paginated Result: ${JSON.stringify(result)}`);
 
@@ -196,7 +240,7 @@ export const getScopeById = async (request: FastifyRequest<{ Params: { scopeId:
       });
     }
 
-    const scope = await getSingleRecord(Scope, { where: { id: scopeId } });
+    const scope = await getSingleRecord(Scope, { where: { id: scopeId, ...getTenantScopeWhere(getRequestTenant(request)) } });
 
     if (isInvalid(scope)) {
       request.server.log.info("Scope not found.");
@@ -234,8 +278,8 @@ export const updateScope = async (request: FastifyRequest<{ Params: { scopeId: s
   try {
     const { scopeId } = request.params;
     const { name, description } = request.body;
-    // @ts-ignore
     const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`Updating Scope ID: ${scopeId}`);
 
@@ -251,8 +295,29 @@ export const updateScope = async (request: FastifyRequest<{ Params: { scopeId: s
     if (name) updateData.name = name.trim().toLowerCase();
     if (description) updateData.description = description;
 
+    if (updateData.name && await findRenameClash(Scope, scopeId, updateData.name, tenant)) {
+      request.server.log.info(`Scope name '${updateData.name}' is used by another scope.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Scope name is already used."
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of scope ${scopeId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, updateData),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: scope was not updated.",
+        data: diff,
+      });
+    }
+
     request.server.log.info(`Updating scope with id: ${scopeId}`);
-    const updated = await updateRecords(Scope, { id: scopeId }, updateData);
+    const updated = await updateRecords(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, updateData);
 
     request.server.log.debug(`Updated Data: ${JSON.stringify(updated)}`);
 
@@ -281,8 +346,8 @@ export const updateScopeFields = async (request: FastifyRequest<{ Params: { scop
 
   try {
     const { scopeId } = request.params;
-    // @ts-ignore
-    const userId = request.user?.id;
+    const userId = request.user?.userId;
+    const tenant = getRequestTenant(request);
 
     request.server.log.debug(`ScopeId: ${scopeId} | Body: ${JSON.stringify(request.body)}`);
 
@@ -298,8 +363,29 @@ export const updateScopeFields = async (request: FastifyRequest<{ Params: { scop
     if (request.body.name !== undefined) updateObj.name = request.body.name.trim().toLowerCase();
     if (request.body.description !== undefined) updateObj.description = request.body.description;
 
+    if (updateObj.name && await findRenameClash(Scope, scopeId, updateObj.name, tenant)) {
+      request.server.log.info(`Scope name '${updateObj.name}' is used by another scope.`);
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Scope name is already used."
+      });
+    }
+
+    if (isDryRunRequest(request)) {
+      request.server.log.info(`Dry run: previewing update of scope ${scopeId}`);
+      const diff = await previewPolicyChange(
+        ({ manager }) => manager.update(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, updateObj),
+        tenant
+      );
+      return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+        status: HTTP_STATUS_MESSAGES.SUCCESS,
+        message: "Dry run: scope was not updated.",
+        data: diff,
+      });
+    }
+
     request.server.log.info(`Partially updating scope ${scopeId}`);
-    const updated = await updateRecords(Scope, { id: scopeId }, updateObj);
+    const updated = await updateRecords(Scope, { id: scopeId, ...getTenantOwnedWhere(tenant) }, updateObj);
 
     request.server.log.debug(`Partial Update Result: ${JSON.stringify(updated)}`);
 
@@ -339,7 +425,7 @@ export const validateScopeTitle = async (request: FastifyRequest<{ Querystring:
       });
     }
 
-    const existing = await getSingleRecord(Scope, { name: name.toLowerCase(), isDeleted: 0 });
+    const existing = await getSingleRecord(Scope, { where: { name: name.toLowerCase(), isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)) } });
 
     request.server.log.info("Validation complete.");
 
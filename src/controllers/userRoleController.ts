@@ -0,0 +1,467 @@
+/**
+ * User Role Controller
+ * --------------------
+ * Handles assignment of Roles to Users through the UserRoleMap entity.
+ *
+ * Features:
+ *  - List roles assigned to a user
+ *  - Assign a single role to a user
+ *  - Bulk assign roles to a user
+ *  - Optional validity period (`validFrom` / `validUntil`) of an assignment
+ *  - Revoke (soft delete) a role from a user
+ *  - List users of a role (paginated)
+ *  - Organization (tenant) assignments: inside a tenant the tenant's and the global assignments apply,
+ *    new assignments belong to the tenant and only those can be revoked (see tenantUtil)
+ *
+ * Logging:
+ *  - `info` → High-level action flow
+ *  - `debug` → Request details & DB results for debugging
+ *
+ * Error Handling:
+ *  - Duplicate assignments return CONFLICT
+ *  - Only active (not soft deleted) roles can be assigned
+ *  - Revoked or expired assignments (also those not swept yet) are restored when assigned again
+ *  - Internal errors are logged and return a safe message
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { In } from 'typeorm';
+import { isInvalid } from '../utils/util';
+import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../utils/httpUtils';
+import {
+  createRecords,
+  getAllRecordsWithFilter,
+  getFilteredRecordsWithPagination,
+  getRecordsWithCursorPagination,
+  getSingleRecord,
+  updateRecords,
+} from '../utils/sql/sqlUtils';
+import { ListQueryConfig, ListQueryString, parseListQuery } from '../utils/sql/queryParser';
+import { UserRoleMap } from '../entities/UserRoleMap';
+import { Role } from '../entities/Role';
+import { findUserById } from '../utils/userUtil';
+import { isWithinValidity, parseValidityPeriod, ValidityPeriod } from '../utils/rbacUtil';
+import { getRequestTenant, getTenantOwnedWhere, getTenantScopeWhere } from '../utils/tenantUtil';
+
+// user fields which are safe to expose in the responses
+const USER_PUBLIC_FIELDS = { id: true, name: true, email: true, isActive: true };
+
+// the users of a role are only paginated, filters and order are fixed
+const ROLE_USERS_LIST_QUERY_CONFIG: ListQueryConfig = { searchFields: [], sortFields: [], selectFields: [] };
+
+
+/**
+ * Get roles assigned to a user
+ */
+export const getUserRoles = async (
+  request: FastifyRequest<{ Params: { userId: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running getUserRoles...");
+
+  try {
+    const { userId } = request.params;
+    request.server.log.debug(`UserId: ${userId}`);
+
+    if (isInvalid(userId)) {
+      request.server.log.info("User ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "User ID is missing.",
+      });
+    }
+
+    const userRoleMaps = await getAllRecordsWithFilter(UserRoleMap, {
+      where: { user: { id: userId }, isDeleted: 0, ...getTenantScopeWhere(getRequestTenant(request)), role: { isDeleted: 0 } },
+      relations: { role: true },
+      order: { createdAt: 'DESC' },
+    });
+
+    request.server.log.debug(`User Roles: ${JSON.stringify(userRoleMaps)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "User roles fetched successfully.",
+      data: userRoleMaps,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getUserRoles");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Assign a role to a user
+ */
+export const assignUserRole = async (
+  request: FastifyRequest<{ Params: { userId: string }; Body: { role?: string } & ValidityPeriod }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running assignUserRole...");
+
+  try {
+    request.server.log.debug(`Params: ${JSON.stringify(request.params)} | Body: ${JSON.stringify(request.body)}`);
+
+    const { userId } = request.params;
+    const role = typeof request.body?.role === 'string' ? request.body.role.trim().toLowerCase() : undefined;
+    const updatedById = request.user?.userId;
+    const tenant = getRequestTenant(request);
+
+    if (isInvalid(userId) || isInvalid(role)) {
+      request.server.log.info("User ID or role missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "User ID and role are required.",
+      });
+    }
+
+    const { validFrom, validUntil, error: validityError } = parseValidityPeriod(request.body);
+
+    if (validityError) {
+      request.server.log.info(`Invalid validity period: ${validityError}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: validityError,
+      });
+    }
+
+    const [userDoc, roleDoc] = await Promise.all([
+      findUserById(userId),
+      getSingleRecord(Role, { where: { name: role, isDeleted: 0, ...getTenantScopeWhere(tenant) } }) as Promise<Role>,
+    ]);
+
+    if (!userDoc || !roleDoc) {
+      request.server.log.info("User or role not found.");
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "User or role not found.",
+      });
+    }
+
+    request.server.log.info(`Checking if role '${role}' is already assigned to user ${userDoc.id}...`);
+    // a global assignment already applies inside the tenant, one outside its validity period does not
+    const assignments = await getAllRecordsWithFilter(UserRoleMap, {
+      where: { user: { id: userDoc.id }, role: { id: roleDoc.id }, isDeleted: 0, ...getTenantScopeWhere(tenant) },
+    }) as UserRoleMap[];
+    const active = assignments.some((userRoleMap) => isWithinValidity(userRoleMap));
+    const existing = await getSingleRecord(UserRoleMap, {
+      where: { user: { id: userDoc.id }, role: { id: roleDoc.id }, ...getTenantOwnedWhere(tenant) },
+    });
+
+    if (active) {
+      request.server.log.info("Duplicate role assignment detected.");
+      return reply.status(HTTP_STATUS_CODE.CONFLICT).send({
+        status: HTTP_STATUS_MESSAGES.CONFLICT,
+        message: "Role is already assigned to the user.",
+      });
+    }
+
+    let result;
+
+    if (existing) {
+      request.server.log.info(`Restoring revoked or expired assignment of role '${role}' to user ${userDoc.id}.`);
+      result = await updateRecords(UserRoleMap, { id: existing.id }, {
+        validFrom: validFrom ?? null,
+        validUntil: validUntil ?? null,
+        isDeleted: 0,
+        updatedBy: { id: updatedById },
+      });
+    } else {
+      request.server.log.info(`Assigning role '${role}' to user ${userDoc.id}.`);
+      result = await createRecords(UserRoleMap, {
+        user: { id: userDoc.id },
+        role: { id: roleDoc.id },
+        organizationId: tenant,
+        validFrom: validFrom ?? null,
+        validUntil: validUntil ?? null,
+        updatedBy: { id: updatedById },
+      });
+    }
+
+    request.server.log.debug(`Assigned Role: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.CREATED).send({
+      status: HTTP_STATUS_MESSAGES.CREATED,
+      message: "Role assigned successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in assignUserRole");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Bulk assign roles to a user
+ * roles: ["admin", "trainer"]
+ */
+export const bulkAssignUserRoles = async (
+  request: FastifyRequest<{ Params: { userId: string }; Body: { roles?: string[] } & ValidityPeriod }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running bulkAssignUserRoles...");
+
+  try {
+    request.server.log.debug(`Params: ${JSON.stringify(request.params)} | Body: ${JSON.stringify(request.body)}`);
+
+    const { userId } = request.params;
+    const roles = request.body?.roles;
+    const updatedById = request.user?.userId;
+    const tenant = getRequestTenant(request);
+
+    if (isInvalid(userId) || !Array.isArray(roles) || roles.length === 0) {
+      request.server.log.info("User ID or roles missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "User ID is required and roles must be a non-empty array.",
+      });
+    }
+
+    const { validFrom, validUntil, error: validityError } = parseValidityPeriod(request.body);
+
+    if (validityError) {
+      request.server.log.info(`Invalid validity period: ${validityError}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: validityError,
+      });
+    }
+
+    const roleNames = [...new Set(roles.map((role) => typeof role === 'string' ? role.trim().toLowerCase() : undefined).filter((role) => !isInvalid(role)))];
+
+    const userDoc = await findUserById(userId);
+    if (!userDoc) {
+      request.server.log.info(`User not found for ID: ${userId}`);
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "User not found.",
+      });
+    }
+
+    const [roleDocs, existingMaps] = await Promise.all([
+      getAllRecordsWithFilter(Role, { where: { name: In(roleNames), isDeleted: 0, ...getTenantScopeWhere(tenant) } }) as Promise<Role[]>,
+      getAllRecordsWithFilter(UserRoleMap, {
+        where: { user: { id: userDoc.id }, role: { name: In(roleNames) }, ...getTenantScopeWhere(tenant) },
+        relations: { role: true },
+      }) as Promise<UserRoleMap[]>,
+    ]);
+
+    const foundRoles = new Map(roleDocs.map((roleDoc) => [roleDoc.name, roleDoc]));
+    const now = new Date();
+    const isActive = (userRoleMap: UserRoleMap) => !userRoleMap.isDeleted && isWithinValidity(userRoleMap, now);
+
+    // active assignments (the tenant's or global) win over a soft deleted or expired assignment of the tenant
+    const existingByRole = new Map<string, UserRoleMap>();
+    for (const userRoleMap of existingMaps) {
+      const roleName = userRoleMap.role?.name;
+      const current = existingByRole.get(roleName);
+      if (isActive(userRoleMap) || (!current && userRoleMap.organizationId === tenant)) existingByRole.set(roleName, userRoleMap);
+    }
+
+    const assigned: string[] = [];
+    const alreadyAssigned: string[] = [];
+    const notFound: string[] = [];
+
+    for (const roleName of roleNames) {
+      const roleDoc = foundRoles.get(roleName);
+
+      if (!roleDoc) {
+        notFound.push(roleName);
+        continue;
+      }
+
+      const existing = existingByRole.get(roleName);
+
+      if (existing && isActive(existing)) {
+        alreadyAssigned.push(roleName);
+        continue;
+      }
+
+      if (existing) {
+        await updateRecords(UserRoleMap, { id: existing.id }, {
+          validFrom: validFrom ?? null,
+          validUntil: validUntil ?? null,
+          isDeleted: 0,
+          updatedBy: { id: updatedById },
+        });
+      } else {
+        await createRecords(UserRoleMap, {
+          user: { id: userDoc.id },
+          role: { id: roleDoc.id },
+          organizationId: tenant,
+          validFrom: validFrom ?? null,
+          validUntil: validUntil ?? null,
+          updatedBy: { id: updatedById },
+        });
+      }
+      assigned.push(roleName);
+    }
+
+    request.server.log.debug(`Bulk assign result: ${JSON.stringify({ assigned, alreadyAssigned, notFound })}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Roles assigned successfully.",
+      data: { assigned, alreadyAssigned, notFound },
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in bulkAssignUserRoles");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Revoke a role from a user
+ */
+export const revokeUserRole = async (
+  request: FastifyRequest<{ Params: { userId: string; roleId: string } }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running revokeUserRole...");
+
+  try {
+    request.server.log.debug(`Params: ${JSON.stringify(request.params)}`);
+
+    const { userId, roleId } = request.params;
+
+    if (isInvalid(userId) || isInvalid(roleId)) {
+      request.server.log.info("User ID or role ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "User ID and role ID are required.",
+      });
+    }
+
+    const existing = (await getSingleRecord(UserRoleMap, {
+      where: { user: { id: userId }, role: { id: roleId }, isDeleted: 0, ...getTenantOwnedWhere(getRequestTenant(request)) },
+    })) as UserRoleMap;
+
+    if (!existing) {
+      request.server.log.info("Role is not assigned to the user.");
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "Role assignment not found.",
+      });
+    }
+
+    request.server.log.info(`Revoking role ${roleId} from user ${userId}.`);
+    const result = await updateRecords(UserRoleMap, { id: existing.id }, {
+      isDeleted: 1,
+      updatedBy: { id: request.user?.userId },
+    });
+
+    request.server.log.debug(`Revoke Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Role revoked successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in revokeUserRole");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
+
+
+/**
+ * Get paginated users of a role
+ */
+export const getRoleUsers = async (
+  request: FastifyRequest<{ Params: { roleId: string }; Querystring: ListQueryString }>,
+  reply: FastifyReply
+) => {
+  request.server.log.info("Running getRoleUsers...");
+
+  try {
+    request.server.log.debug(`Params: ${JSON.stringify(request.params)} | Query: ${JSON.stringify(request.query)}`);
+
+    const { roleId } = request.params;
+    const listQuery = parseListQuery(request.query, ROLE_USERS_LIST_QUERY_CONFIG);
+
+    if (isInvalid(roleId)) {
+      request.server.log.info("Role ID missing.");
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: "Role ID is missing.",
+      });
+    }
+
+    const tenant = getRequestTenant(request);
+    const role = await getSingleRecord(Role, { where: { id: roleId, isDeleted: 0, ...getTenantScopeWhere(tenant) } });
+
+    if (isInvalid(role)) {
+      request.server.log.info(`No active role found for ID: ${roleId}`);
+      return reply.status(HTTP_STATUS_CODE.NOT_FOUND).send({
+        status: HTTP_STATUS_MESSAGES.NOT_FOUND,
+        message: "Role not found.",
+      });
+    }
+
+    if (listQuery.errors.length > 0) {
+      request.server.log.info(`Invalid list query: ${listQuery.errors.join(' ')}`);
+      return reply.status(HTTP_STATUS_CODE.BAD_REQUEST).send({
+        status: HTTP_STATUS_MESSAGES.BAD_REQUEST,
+        message: listQuery.errors.join(' '),
+      });
+    }
+
+    const select = { id: true, createdAt: true, organizationId: true, validFrom: true, validUntil: true, user: USER_PUBLIC_FIELDS };
+
+    const result = listQuery.cursor !== undefined
+      ? await getRecordsWithCursorPagination(
+        UserRoleMap,
+        { cursor: listQuery.cursor, limit: listQuery.page.limit, withCount: listQuery.withCount },
+        { role: { id: roleId }, isDeleted: 0, ...getTenantScopeWhere(tenant) },
+        select,
+        { user: true },
+      )
+      : await getFilteredRecordsWithPagination(
+        UserRoleMap,
+        listQuery.page,
+        { role: { id: roleId }, isDeleted: 0, ...getTenantScopeWhere(tenant) },
+        { createdAt: 'DESC' },
+        select,
+        { user: true },
+      );
+
+    request.server.log.debug(`Pagination Result: ${JSON.stringify(result)}`);
+
+    return reply.status(HTTP_STATUS_CODE.SUCCESS).send({
+      status: HTTP_STATUS_MESSAGES.SUCCESS,
+      message: "Role users fetched successfully.",
+      data: result,
+    });
+
+  } catch (error: any) {
+    request.server.log.info("Error in getRoleUsers");
+    request.server.log.error(error);
+    return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+      status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+      message: "An unexpected error occured, please contact admin"
+    });
+  }
+};
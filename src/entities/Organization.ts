@@ -0,0 +1,43 @@
+/*
+    @id: This field serves as the unique identifier for each organization (tenant).
+    @name: This field represents the name of the organization. It is unique across the system.
+    @description: This field provides a description or additional information about the organization.
+
+    Roles, permissions, resources, scopes, policies and role assignments reference their organization.
+    Records without an organization are global (system) records shared by every organization.
+*/
+
+import { Entity, PrimaryGeneratedColumn, Column, BaseEntity, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from "typeorm"
+import { User } from "./User"
+
+@Entity()
+export class Organization extends BaseEntity {
+    @PrimaryGeneratedColumn("uuid")
+    id: string
+
+    @Column({ unique: true })
+    name: string
+
+    @Column()
+    description: string
+
+    @Column({
+        type: "tinyint",
+        default: 0,
+    })
+    isDeleted: boolean
+
+    @ManyToOne(() => User, {nullable: true, onDelete: "NO ACTION"})
+    @JoinColumn()
+    createdBy: User
+
+    @ManyToOne(() => User, {nullable: true, onDelete: "NO ACTION"})
+    @JoinColumn()
+    updatedBy: User
+
+    @CreateDateColumn()
+    createdAt: Date
+
+    @UpdateDateColumn()
+    updatedAt: Date
+}
@@ -1,14 +1,16 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from "typeorm"
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Unique } from "typeorm"
+import { Organization } from "./Organization"
 import { User } from "./User"
 import { Policy } from "./Policy"
 
 
 @Entity()
+@Unique("permission_name_organization_unique", ["name", "organizationId"])
 export class Permission extends BaseEntity {
     @PrimaryGeneratedColumn("uuid")
     id: string
 
-    @Column({ unique: true })
+    @Column()
     name: string
 
     @Column()
@@ -17,6 +19,14 @@ export class Permission extends BaseEntity {
     @OneToMany(() => Policy, (policy) => policy.permission)
     public policies!: Policy[]
 
+    // owning organization (tenant), null → global record shared by every organization
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
     @Column({
         type: "tinyint",
         default: 0,
@@ -1,6 +1,7 @@
 
 
 import { Entity, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Column, BaseEntity, CreateDateColumn, UpdateDateColumn, OneToOne, Unique } from "typeorm"
+import { Organization } from "./Organization"
 import { User } from "./User"
 import { Scope } from "./Scope"
 import { Resource } from "./Resource"
@@ -9,7 +10,7 @@ import { Role } from "./Role"
 
 
 @Entity()
-@Unique("policy_table_unique_constraints",["role","permission","resource","scope"])
+@Unique("policy_table_unique_constraints",["role","permission","resource","scope","organizationId"])
 export class Policy extends BaseEntity {
     @PrimaryGeneratedColumn("uuid")
     id: string 
@@ -26,6 +27,30 @@ export class Policy extends BaseEntity {
     @ManyToOne(() => Scope, (scope) => scope.policies, { onDelete: "NO ACTION" })
     scope: Scope 
 
+    // owning organization (tenant), null → global policy applying in every organization.
+    // A tenant may add its own policy for a global role next to the global policy.
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
+    // deny policies override the allow policies of the user's other roles
+    @Column({ type: "enum", enum: ["allow", "deny"], default: "allow" })
+    effect: "allow" | "deny"
+
+    // optional validity period (null → unbounded), expired policies are soft deleted by the RBAC expiry sweeper
+    @Column({ type: "datetime", nullable: true })
+    validFrom: Date | null
+
+    @Column({ type: "datetime", nullable: true })
+    validUntil: Date | null
+
+    // optional ABAC condition (see policyConditionUtil), null → granted unconditionally
+    @Column({ type: "json", nullable: true })
+    condition: Record<string, unknown> | null
+
     @Column({
         type: "tinyint",
         default: 0,
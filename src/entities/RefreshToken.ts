@@ -0,0 +1,49 @@
+/*
+    @id: This field is the unique identifier of the refresh token and is also used as the `jti` claim of the token.
+    @user: This field represents the user the refresh token was issued to.
+    @familyId: This field groups all the refresh tokens rotated from the same login. Reusing a rotated token revokes the whole family.
+    @tokenHash: This field stores the sha256 hash of the refresh token, the raw token is never stored.
+    @isUsed: This field marks the token as already rotated.
+    @isRevoked: This field marks the token as revoked (reuse detected or logout).
+*/
+
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn, BaseEntity, CreateDateColumn, UpdateDateColumn, Index } from "typeorm"
+import { User } from "./User"
+
+@Entity()
+export class RefreshToken extends BaseEntity {
+    @PrimaryColumn("uuid")
+    id: string
+
+    @ManyToOne(() => User, { onDelete: "CASCADE", nullable: false })
+    @JoinColumn()
+    user: User
+
+    @Index()
+    @Column({ type: "varchar", length: 36 })
+    familyId: string
+
+    @Column({ type: "varchar", length: 64 })
+    tokenHash: string
+
+    @Column({
+        type: "tinyint",
+        default: 0,
+    })
+    isUsed: boolean
+
+    @Column({
+        type: "tinyint",
+        default: 0,
+    })
+    isRevoked: boolean
+
+    @Column({ type: "datetime" })
+    expiresAt: Date
+
+    @CreateDateColumn()
+    createdAt: Date
+
+    @UpdateDateColumn()
+    updatedAt: Date
+}
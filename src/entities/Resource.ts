@@ -1,13 +1,15 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, JoinColumn, ManyToOne } from "typeorm"
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, JoinColumn, ManyToOne, Unique } from "typeorm"
+import { Organization } from "./Organization"
 import { User } from "./User"
 import { Policy } from "./Policy"
 
 @Entity()
+@Unique("resource_name_organization_unique", ["name", "organizationId"])
 export class Resource extends BaseEntity {
     @PrimaryGeneratedColumn("uuid")
     id: string
 
-    @Column({ unique: true })
+    @Column()
     name: string
 
     @Column()
@@ -16,6 +18,14 @@ export class Resource extends BaseEntity {
     @OneToMany(() => Policy, (policy) => policy.resource)
     public policies!: Policy[]
 
+    // owning organization (tenant), null → global record shared by every organization
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
     @Column({
         type: "tinyint",
         default: 0,
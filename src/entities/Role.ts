@@ -1,15 +1,17 @@
 
-import { Entity, PrimaryGeneratedColumn, Column, ManyToMany, JoinTable, OneToMany, BaseEntity, UpdateDateColumn, CreateDateColumn, ManyToOne, JoinColumn } from "typeorm"
+import { Entity, PrimaryGeneratedColumn, Column, ManyToMany, JoinTable, OneToMany, BaseEntity, UpdateDateColumn, CreateDateColumn, ManyToOne, JoinColumn, Unique } from "typeorm"
+import { Organization } from "./Organization"
 import { User } from "./User"
 import { Policy } from "./Policy"
 import { UserRoleMap } from "./UserRoleMap"
 
 @Entity()
+@Unique("role_name_organization_unique", ["name", "organizationId"])
 export class Role extends BaseEntity {
     @PrimaryGeneratedColumn("uuid")
     id: string
 
-    @Column({ unique: true })
+    @Column()
     name: string
 
     @Column()
@@ -21,6 +23,22 @@ export class Role extends BaseEntity {
     @OneToMany(() => Policy, (policy) => policy.role)
     public policies!: Policy[]
 
+    // a role inherits every policy of its ancestors
+    @ManyToOne(() => Role, (role) => role.children, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn()
+    parent: Role | null
+
+    @OneToMany(() => Role, (role) => role.parent)
+    public children!: Role[]
+
+    // owning organization (tenant), null → global record shared by every organization
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
     @Column({
         type: "tinyint",
         default: 0,
@@ -1,19 +1,21 @@
 /*
     @id: This field serves as the unique identifier for each scope. It is annotated with the @PrimaryGeneratedColumn() decorator, indicating it is a primary key with auto-incrementing values.
-    @name: This field represents the name of the scope. It is annotated with the @Column({ unique: true }) decorator, which specifies that the values in this column should be unique.
+    @name: This field represents the name of the scope. It is unique within its organization (see the @Unique constraint on name and organizationId).
     @description: This field provides a description or additional information about the scope. It is annotated with the @Column() decorator, indicating it is a regular column.
 */
 
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, ManyToMany, ManyToOne, JoinColumn } from "typeorm"
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, BaseEntity, CreateDateColumn, UpdateDateColumn, ManyToMany, ManyToOne, JoinColumn, Unique } from "typeorm"
+import { Organization } from "./Organization"
 import { Policy } from "./Policy"
 import { User } from "./User"
 
 @Entity()
+@Unique("scope_name_organization_unique", ["name", "organizationId"])
 export class Scope extends BaseEntity {
     @PrimaryGeneratedColumn("uuid")
     id: string 
 
-    @Column({ unique: true })
+    @Column()
     name: string 
 
     @Column()
@@ -22,6 +24,14 @@ export class Scope extends BaseEntity {
     @OneToMany(() => Policy, (policy) => policy.scope)
     public policies!: Policy[]
 
+    // owning organization (tenant), null → global record shared by every organization
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
     @Column({
         type: "tinyint",
         default: 0,
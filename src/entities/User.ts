@@ -2,7 +2,7 @@
  * User class to store the information of the user to the mysql
  */
 
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, BaseEntity, OneToMany } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, BaseEntity, OneToMany, Index } from 'typeorm';
 import { UserRoleMap } from './UserRoleMap';
 
 export enum UserRole {
@@ -19,6 +19,15 @@ export class User extends BaseEntity {
   @Column({ type: 'varchar', length: 100 })
   name!: string;
 
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  firstName: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  lastName: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true, nullable: true })
+  userName: string;
+
   @Column({ type: 'varchar', length: 150, unique: true })
   email!: string;
 
@@ -33,12 +42,43 @@ export class User extends BaseEntity {
     })
    token: string
 
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  avatar: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true, nullable: true })
+  googleId: string;
+
+  // id of the user document in mongodb, kept for users migrated from the mongo `users` collection
+  @Column({ type: 'varchar', length: 24, unique: true, nullable: true })
+  mongoId: string;
+
   @OneToMany(() => UserRoleMap, userRoleMap => userRoleMap.user)
   public userRoleMaps!: UserRoleMap[];
 
+  // false until the email of an email/password sign up is verified
   @Column({ type: 'boolean', default: true })
   isActive!: boolean;
 
+  // home organization (tenant) of the user, carried in the access token; null → the tenant is taken from the request header
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  organizationId: string | null;
+
+  // incremented to invalidate every access token issued before
+  @Column({ type: 'int', default: 0 })
+  tokenVersion: number;
+
+  // sha256 hash of the single-use password reset token
+  @Index()
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  passwordResetTokenHash: string;
+
+  @Column({ type: 'datetime', nullable: true })
+  passwordResetExpiresAt: Date;
+
+  // sha256 hash of the last sent email verification token, cleared on verify so the link works once
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  emailVerificationTokenHash: string;
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt!: Date;
 
@@ -2,9 +2,12 @@
     @id: This field serves as the unique identifier for each user-role mapping. It is annotated with the @PrimaryGeneratedColumn() decorator, indicating it is a primary key with auto-incrementing values.
     @user: This field represents the association with the User entity. It is annotated with @ManyToOne() decorator, indicating that many UserRoleMap entities can belong to a single User. It also uses the @JoinColumn() decorator to specify the foreign key column name as 'user_id'.
     @role: This field represents the association with the Role entity. It is annotated with @ManyToOne() decorator, indicating that many UserRoleMap entities can belong to a single Role. It also uses the @JoinColumn() decorator to specify the foreign key column name as 'role_id'.
+    @organizationId: Organization (tenant) the assignment applies in. Global assignments (null) apply in every organization.
+    @validFrom / @validUntil: Optional validity period of the assignment (null → unbounded). Expired assignments are soft deleted by the RBAC expiry sweeper.
 */
 
-import { Entity, PrimaryGeneratedColumn, ManyToOne, JoinColumn, BaseEntity, CreateDateColumn, UpdateDateColumn } from "typeorm"
+import { Entity, PrimaryGeneratedColumn, ManyToOne, JoinColumn, BaseEntity, CreateDateColumn, UpdateDateColumn, Column } from "typeorm"
+import { Organization } from "./Organization"
 import { User } from "./User"
 import { Role } from "./Role"
 
@@ -19,6 +22,26 @@ export class UserRoleMap extends BaseEntity {
     @ManyToOne(() => Role, (role) => role.userRoleMaps, { onDelete: "NO ACTION", nullable: false })
     public role: Role 
 
+    // organization (tenant) the assignment applies in, null → global assignment applying in every organization
+    @Column({ type: "varchar", length: 36, nullable: true })
+    organizationId: string | null
+
+    @ManyToOne(() => Organization, { nullable: true, onDelete: "NO ACTION" })
+    @JoinColumn({ name: "organizationId" })
+    organization: Organization | null
+
+    @Column({ type: "datetime", nullable: true })
+    validFrom: Date | null
+
+    @Column({ type: "datetime", nullable: true })
+    validUntil: Date | null
+
+    @Column({
+        type: "tinyint",
+        default: 0,
+    })
+    isDeleted: boolean
+
     @ManyToOne(() => User, {nullable: true, onDelete: "NO ACTION"})
     @JoinColumn()
     updatedBy: User
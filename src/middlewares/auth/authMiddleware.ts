@@ -0,0 +1,118 @@
+/**
+ * Authentication Middleware
+ * -------------------------
+ * Verifies the JWT access token issued by the auth controller and attaches
+ * the decoded payload to `request.user`.
+ *
+ * Token lookup order:
+ *  - `Authorization: Bearer <token>` header
+ *  - session cookie (`config.SESSION.ACCESS_TOKEN_COOKIE_NAME`)
+ *  - legacy `token` / `jwtToken` cookies
+ *
+ * The organization (tenant) requested through the tenant header is only accepted when the
+ * token carries no organization and the user is a member of it (see tenantUtil).
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../../utils/httpUtils';
+import { isInvalid } from '../../utils/util';
+import { isAccessTokenRevoked } from '../../utils/tokenUtil';
+import { LEGACY_ACCESS_TOKEN_COOKIES } from '../../utils/sessionUtil';
+import { config } from '../../config/config';
+import { getRequestedTenantHeader } from '../../utils/tenantUtil';
+import { isOrganizationMember } from '../../utils/rbacUtil';
+
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    payload: TokenPayload;
+    user: TokenPayload;
+  }
+}
+
+export const ACCESS_TOKEN_COOKIES = [...new Set([config.SESSION.ACCESS_TOKEN_COOKIE_NAME, ...LEGACY_ACCESS_TOKEN_COOKIES])];
+
+/**
+ * Extracts the access token from the request header or cookies
+ */
+export const extractAccessToken = (request: FastifyRequest): string | null => {
+  const authHeader = request.headers?.authorization;
+
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.slice('Bearer '.length).trim();
+    if (!isInvalid(token)) return token;
+  }
+
+  for (const cookieName of ACCESS_TOKEN_COOKIES) {
+    const token = request.cookies?.[cookieName];
+    if (!isInvalid(token)) return token;
+  }
+
+  return null;
+};
+
+/**
+ * preHandler hook to authenticate the request using the access token
+ */
+export const authenticateToken = async (request: FastifyRequest, reply: FastifyReply) => {
+  request.server.log.info("Running authenticateToken...");
+
+  const token = extractAccessToken(request);
+
+  if (isInvalid(token)) {
+    request.server.log.info("Access token missing in request.");
+    return reply.status(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+      status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+      message: "Access token is missing.",
+    });
+  }
+
+  try {
+    const payload = request.server.jwt.verify<TokenPayload>(token);
+
+    // refresh tokens (familyId) and verification tokens (purpose) must not be accepted as access tokens
+    if (
+      isInvalid(payload?.userId) ||
+      !isInvalid((payload as RefreshTokenPayload).familyId) ||
+      !isInvalid((payload as EmailVerificationPayload).purpose)
+    ) {
+      request.server.log.info("Access token payload is not a valid access token.");
+      return reply.status(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+        status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+        message: "Invalid access token.",
+      });
+    }
+
+    if (await isAccessTokenRevoked(payload)) {
+      request.server.log.info("Access token has been revoked.");
+      return reply.status(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+        status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+        message: "Session has expired. Please login again!",
+      });
+    }
+
+    const requestedTenant = getRequestedTenantHeader(request);
+
+    if (requestedTenant && requestedTenant !== payload.organizationId) {
+      // a token bound to an organization can not switch to another one
+      const isMember = !payload.organizationId && (await isOrganizationMember(payload.userId, requestedTenant));
+
+      if (!isMember) {
+        request.server.log.info(`User ${payload.userId} is not a member of organization ${requestedTenant}.`);
+        return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+          status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+          message: "You are not a member of the requested organization.",
+        });
+      }
+    }
+
+    request.user = requestedTenant ? { ...payload, organizationId: requestedTenant } : payload;
+    request.server.log.debug(`Authenticated user: ${payload.userId}`);
+
+  } catch (error: any) {
+    request.server.log.info(`Access token verification failed: ${error.message}`);
+    return reply.status(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+      status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+      message: "Invalid or expired access token.",
+    });
+  }
+};
@@ -0,0 +1,125 @@
+/**
+ * RBAC Authorization Middleware
+ * -----------------------------
+ * Route-level guard checking the authenticated user's roles against the
+ * cached RBAC policy map. A deny policy of any role overrides the allows of
+ * its scope, a global deny those of every scope (deny-overrides).
+ *
+ * Usage:
+ *  fastify.get('/', { preHandler: authorize({ resource: 'role', permission: 'read' }), handler });
+ *
+ * Policies with an ABAC condition are evaluated against the user (subject), the
+ * request environment and the resource attributes returned by `resourceAttributes`:
+ *  authorize({ resource: 'course', permission: 'update' }, {
+ *    resourceAttributes: async (request) => ({ ownerId: ... }),
+ *  });
+ *
+ * Must run after `authenticateToken` so that `request.user` is populated.
+ *
+ * Roles and policies are those of the request's organization (see tenantUtil) and the global ones.
+ *
+ * The guard accepts a grant of any scope when the route does not require one;
+ * controllers check the scope against the loaded record with `decideRecordAccess`
+ * (see scopeResolverUtil).
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { HTTP_STATUS_CODE, HTTP_STATUS_MESSAGES } from '../../utils/httpUtils';
+import { isInvalid } from '../../utils/util';
+import { AccessRequirement, decideAccess, getRBACPolicyConditions, getRBACPolicyMap, getUserRoleNames } from '../../utils/rbacUtil';
+import { getRequestEnvironment, PolicyConditionContext } from '../../utils/policyConditionUtil';
+import { getRequestTenant } from '../../utils/tenantUtil';
+
+export const RBAC_DENY_REASONS = {
+  NO_ROLES: "NO_ROLES",
+  NOT_GRANTED: "NOT_GRANTED",
+  DENIED: "DENIED",
+};
+
+export interface AuthorizeOptions {
+  // attributes of the accessed resource for policy conditions (e.g. loaded by the route params)
+  resourceAttributes?: (request: FastifyRequest) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+/**
+ * Builds the context the policy conditions are evaluated against
+ */
+const getConditionContext = async (
+  request: FastifyRequest,
+  roles: string[],
+  options: AuthorizeOptions
+): Promise<PolicyConditionContext> => {
+  return {
+    subject: { ...request.user, roles, organizationId: getRequestTenant(request) },
+    resource: (await options.resourceAttributes?.(request)) ?? {},
+    environment: getRequestEnvironment(request),
+  };
+};
+
+/**
+ * Creates a preHandler that allows the request only if one of the user's roles
+ * is granted the required permission on the resource (and scope, if given).
+ */
+export const authorize = (requirement: AccessRequirement, options: AuthorizeOptions = {}) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    request.server.log.info(`Running authorize for ${requirement.permission} on ${requirement.resource}...`);
+
+    const user = request.user;
+
+    if (isInvalid(user?.userId)) {
+      request.server.log.info("No authenticated user found on request.");
+      return reply.status(HTTP_STATUS_CODE.UNAUTHORIZED).send({
+        status: HTTP_STATUS_MESSAGES.UNAUTHORIZED,
+        message: "Authentication is required.",
+      });
+    }
+
+    try {
+      const tenant = getRequestTenant(request);
+      const roles = await getUserRoleNames(user.userId, tenant);
+      request.server.log.debug(`Roles for user ${user.userId}: ${JSON.stringify(roles)}`);
+
+      if (isInvalid(roles)) {
+        request.server.log.info("User does not have any role assigned.");
+        return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+          status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+          message: "Access denied.",
+          data: { reason: RBAC_DENY_REASONS.NO_ROLES, required: requirement, roles },
+        });
+      }
+
+      const policiesMap = await getRBACPolicyMap(tenant);
+      const conditions = await getRBACPolicyConditions(tenant);
+      const context = await getConditionContext(request, roles, options);
+      const decision = decideAccess(policiesMap, roles, requirement, conditions, context);
+
+      if (decision.deniedBy && !decision.allowed) {
+        request.server.log.info(`Access denied by policy: ${JSON.stringify(decision.deniedBy)}`);
+        return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+          status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+          message: "Access denied.",
+          data: { reason: RBAC_DENY_REASONS.DENIED, required: requirement, roles },
+        });
+      }
+
+      if (!decision.allowed) {
+        request.server.log.info("No policy grants the required access.");
+        return reply.status(HTTP_STATUS_CODE.FORBIDDEN).send({
+          status: HTTP_STATUS_MESSAGES.FORBIDDEN,
+          message: "Access denied.",
+          data: { reason: RBAC_DENY_REASONS.NOT_GRANTED, required: requirement, roles },
+        });
+      }
+
+      request.server.log.debug(`Access granted by policy: ${JSON.stringify(decision.match)}`);
+
+    } catch (error: any) {
+      request.server.log.info("Error in authorize");
+      request.server.log.error(error);
+      return reply.status(HTTP_STATUS_CODE.INTERNAL_SERVER_ERROR).send({
+        status: HTTP_STATUS_MESSAGES.INTERNAL_SERVER_ERROR,
+        message: "An unexpected error occured, please contact admin",
+      });
+    }
+  };
+};
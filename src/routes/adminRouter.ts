@@ -0,0 +1,46 @@
+/**
+ * Admin Routes
+ * ------------
+ * Handles maintenance operations for administrators.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { deleteCache, getCacheKeys, getCacheStatistics, rebuildRBACCache, warmUpCache } from '../controllers/adminController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
+
+export async function adminRoutes(fastify: FastifyInstance) {
+
+  // Apply authentication globally for all admin routes
+  fastify.addHook('preHandler', authenticateToken);
+
+  // Force a rebuild of the RBAC policy map cache
+  fastify.post('/rbac/rebuild', {
+    preHandler: authorize({ resource: 'admin', permission: 'update' }),
+    handler: rebuildRBACCache,
+  });
+
+  // Cache statistics
+  fastify.get('/cache', {
+    preHandler: authorize({ resource: 'admin', permission: 'read' }),
+    handler: getCacheStatistics,
+  });
+
+  // List cache keys by prefix
+  fastify.get('/cache/keys', {
+    preHandler: authorize({ resource: 'admin', permission: 'read' }),
+    handler: getCacheKeys,
+  });
+
+  // Delete a cache key or prefix
+  fastify.delete('/cache', {
+    preHandler: authorize({ resource: 'admin', permission: 'delete' }),
+    handler: deleteCache,
+  });
+
+  // Preload the cache
+  fastify.post('/cache/warm-up', {
+    preHandler: authorize({ resource: 'admin', permission: 'update' }),
+    handler: warmUpCache,
+  });
+}
@@ -3,7 +3,8 @@
  */
 
 import { FastifyInstance } from "fastify";
-import { googleAuthLogin, loginWithEmailAndPassword, logoutUser, signUpWithEmailAndPassword } from "../controllers/authController";
+import { authenticateToken } from "../middlewares/auth/authMiddleware";
+import { forgotPassword, googleAuthLogin, loginWithEmailAndPassword, logoutAllSessions, logoutUser, refreshAccessToken, resendVerificationEmail, resetPassword, signUpWithEmailAndPassword, verifyEmail } from "../controllers/authController";
 
 const authRouter = (fastify: FastifyInstance) => {
     fastify.post('/login', {
@@ -22,12 +23,11 @@ const authRouter = (fastify: FastifyInstance) => {
     fastify.post('/signup', { schema: {
         body: {
             type: 'object',
-            required: ['firstName', 'lastName', 'email', 'role', 'password', 'userName'],
+            required: ['firstName', 'lastName', 'email', 'password', 'userName'],
             properties: {
                 firstName: { type: 'string', minLength: 3 },
                 lastName: { type: 'string' },
                 email: { type: 'string', format: 'email' },
-                role: { type: 'string' },
                 password: { type: 'string', minLength: 6 },
                 userName: { type: 'string', minLength: 6 }
             }
@@ -44,8 +44,53 @@ const authRouter = (fastify: FastifyInstance) => {
         }
     }}, googleAuthLogin)
 
+    fastify.post('/refresh', refreshAccessToken);
+
     fastify.post('/logout', logoutUser);
 
+    fastify.post('/logout-all', { preHandler: authenticateToken }, logoutAllSessions);
+
+    fastify.post('/forgot-password', { schema: {
+        body: {
+            type: 'object',
+            required: ['email'],
+            properties: {
+                email: { type: 'string', format: 'email' }
+            }
+        }
+    }}, forgotPassword);
+
+    fastify.post('/reset-password', { schema: {
+        body: {
+            type: 'object',
+            required: ['token', 'password'],
+            properties: {
+                token: { type: 'string' },
+                password: { type: 'string', minLength: 6 }
+            }
+        }
+    }}, resetPassword);
+
+    fastify.get('/verify-email', { schema: {
+        querystring: {
+            type: 'object',
+            required: ['token'],
+            properties: {
+                token: { type: 'string' }
+            }
+        }
+    }}, verifyEmail);
+
+    fastify.post('/resend-verification', { schema: {
+        body: {
+            type: 'object',
+            required: ['email'],
+            properties: {
+                email: { type: 'string', format: 'email' }
+            }
+        }
+    }}, resendVerificationEmail);
+
 }
 
 export default authRouter;
\ No newline at end of file
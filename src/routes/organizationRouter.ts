@@ -0,0 +1,67 @@
+import { FastifyInstance } from 'fastify';
+import { createOrganization, deleteOrganization, getOrganizationById, getOrganizations } from '../controllers/organizationController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
+
+export async function organizationRoutes(fastify: FastifyInstance) {
+
+  // Apply authentication globally for all organization routes
+  fastify.addHook('preHandler', authenticateToken);
+
+  // Get all organizations
+  fastify.get('/', {
+    schema: {
+    },
+    preHandler: authorize({ resource: 'organization', permission: 'read' }),
+    handler: getOrganizations,
+  });
+
+  // Get an organization by ID
+  fastify.get('/:organizationId', {
+    schema: {
+      summary: 'Get organization by ID',
+      params: {
+        type: 'object',
+        properties: {
+          organizationId: { type: 'string' },
+        },
+        required: ['organizationId'],
+      },
+    },
+    preHandler: authorize({ resource: 'organization', permission: 'read' }),
+    handler: getOrganizationById,
+  });
+
+  // Create a new organization
+  fastify.post('/', {
+    schema: {
+      summary: 'Create a new organization',
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['name', 'description'],
+      },
+    },
+    preHandler: authorize({ resource: 'organization', permission: 'create' }),
+    handler: createOrganization,
+  });
+
+  // Delete an organization
+  fastify.delete('/:organizationId', {
+    schema: {
+      summary: 'Delete an organization by ID',
+      params: {
+        type: 'object',
+        properties: {
+          organizationId: { type: 'string' },
+        },
+        required: ['organizationId'],
+      },
+    },
+    preHandler: authorize({ resource: 'organization', permission: 'delete' }),
+    handler: deleteOrganization,
+  });
+}
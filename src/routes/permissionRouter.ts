@@ -1,37 +1,49 @@
 
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { createPermission, deletePermission, getPermissionById, getPermissions, updatePermission, updatePermissionFields, validatePermissionTitle } from '../controllers/permissionController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
 
 /**
  * Fastify plugin for permission-related routes.
  */
 export const permissionRoutes = (fastify: FastifyInstance) => {
 
+  // Apply authentication globally for all permission routes
+  fastify.addHook('preHandler', authenticateToken);
+
   fastify.get('/', {
+    preHandler: authorize({ resource: 'permission', permission: 'read' }),
     handler: getPermissions,
   });
 
   fastify.get('/:permissionId', {
+    preHandler: authorize({ resource: 'permission', permission: 'read' }),
     handler: getPermissionById,
   });
 
   fastify.post('/', {
+    preHandler: authorize({ resource: 'permission', permission: 'create' }),
     handler: createPermission,
   });
 
   fastify.put('/:permissionId', {
+    preHandler: authorize({ resource: 'permission', permission: 'update' }),
     handler: updatePermission,
   });
 
   fastify.patch('/:permissionId', {
+    preHandler: authorize({ resource: 'permission', permission: 'update' }),
     handler: updatePermissionFields,
   });
 
   fastify.delete('/:permissionId', {
+    preHandler: authorize({ resource: 'permission', permission: 'delete' }),
     handler: deletePermission,
   });
 
   fastify.get('/check/title', {
+    preHandler: authorize({ resource: 'permission', permission: 'read' }),
     handler: validatePermissionTitle,
   });
 };
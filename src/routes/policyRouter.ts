@@ -1,30 +1,111 @@
 /**
  * Policy Routes (Fastify + TypeScript)
  * ------------------------------------
- * Handles CRUD and ACL (Access Control List) operations for policies.
+ * Handles CRUD, ACL (Access Control List) and policy decision operations for policies.
  */
 
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
-import { createPolicy, deletePolicy, getPolicies, getPolicyById, updateAccessControlList, updatePolicy } from '../controllers/policyController';
+import { checkPolicyAccess, createPolicy, deletePolicy, getPolicies, getPolicyById, getPolicyMatrix, updateAccessControlList, updatePolicy } from '../controllers/policyController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
+import { POLICY_EFFECT } from '../utils/rbacUtil';
+
+// fields of a created or updated policy, the names reference existing records
+const policyBodyProperties = {
+  role: { type: 'string', minLength: 1 },
+  permission: { type: 'string', minLength: 1 },
+  resource: { type: 'string', minLength: 1 },
+  scope: { type: 'string', minLength: 1 },
+  condition: { type: ['object', 'null'] },
+  validFrom: { type: ['string', 'null'] },
+  validUntil: { type: ['string', 'null'] },
+};
+
+// single entry of the policy decision check
+const policyCheckSchema = {
+  type: 'object',
+  properties: {
+    resource: { type: 'string', minLength: 1 },
+    permission: { type: 'string', minLength: 1 },
+    scope: { type: 'string', minLength: 1 },
+    attributes: { type: 'object' },
+  },
+  required: ['resource', 'permission'],
+};
 
 export const policyRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<void> => {
 
   // Apply authentication globally for all routes in this plugin
-//   fastify.addHook('preHandler', authenticateToken);
+  fastify.addHook('preHandler', authenticateToken);
 
   fastify.get('/', {
+    preHandler: authorize({ resource: 'policy', permission: 'read' }),
     handler: getPolicies,
   });
 
+  fastify.get('/matrix', {
+    preHandler: authorize({ resource: 'policy', permission: 'read' }),
+    handler: getPolicyMatrix,
+  });
+
+  fastify.post('/check', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          subject: {
+            type: 'object',
+            properties: {
+              userId: { type: 'string', minLength: 1 },
+              roles: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+              attributes: { type: 'object' },
+            },
+            anyOf: [{ required: ['userId'] }, { required: ['roles'] }],
+          },
+          checks: {
+            anyOf: [
+              policyCheckSchema,
+              { type: 'array', items: policyCheckSchema, minItems: 1 },
+            ],
+          },
+          environment: { type: 'object' },
+        },
+        required: ['subject', 'checks'],
+      },
+    },
+    preHandler: authorize({ resource: 'policy', permission: 'read' }),
+    handler: checkPolicyAccess,
+  });
+
   fastify.get('/:policyId', {
+    preHandler: authorize({ resource: 'policy', permission: 'read' }),
     handler: getPolicyById,
   });
 
   fastify.post('/', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          ...policyBodyProperties,
+          effect: { type: 'string', enum: Object.values(POLICY_EFFECT) },
+        },
+        required: ['role', 'permission', 'resource', 'scope'],
+      },
+    },
+    preHandler: authorize({ resource: 'policy', permission: 'create' }),
     handler: createPolicy,
   });
 
   fastify.put('/:policyId', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: policyBodyProperties,
+        required: ['role', 'permission', 'resource', 'scope'],
+      },
+    },
+    preHandler: authorize({ resource: 'policy', permission: 'update' }),
     handler: updatePolicy,
   });
 
@@ -33,10 +114,12 @@ export const policyRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
   // });
 
   fastify.delete('/:policyId', {
+    preHandler: authorize({ resource: 'policy', permission: 'delete' }),
     handler: deletePolicy,
   });
 
   fastify.post('/list', {
+    preHandler: authorize({ resource: 'policy', permission: 'update' }),
     handler: updateAccessControlList,
   });
 };
@@ -1,47 +1,49 @@
 import { FastifyInstance } from 'fastify';
 import { createResource, deleteResource, getResourceById, getResources, updateResource, updateResourceFields, validateResourceTitle } from '../controllers/resourceController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
 
 export async function resourceRoutes(fastify: FastifyInstance) {
 
   // Get all resources
   fastify.get('/', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'read' })],
     handler: getResources,
   });
 
   // Check resource title (static route must come before :id route)
   fastify.get('/check/title', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'read' })],
     handler: validateResourceTitle,
   });
 
   // Get resource by ID
   fastify.get('/:resourceId', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'read' })],
     handler: getResourceById,
   });
 
   // Create resource
   fastify.post('/', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'create' })],
     handler: createResource,
   });
 
   // Update resource (full update)
   fastify.put('/:resourceId', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'update' })],
     handler: updateResource,
   });
 
   // Update specific fields (partial update)
   fastify.patch('/:resourceId', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'update' })],
     handler: updateResourceFields,
   });
 
   // Delete resource
   fastify.delete('/:resourceId', {
-    // preHandler: authenticateToken,
+    preHandler: [authenticateToken, authorize({ resource: 'resource', permission: 'delete' })],
     handler: deleteResource,
   });
 }
@@ -1,43 +1,65 @@
 import { FastifyInstance } from 'fastify';
-import { createRole, deleteRole, getRoleById, getRoles, updateRole, updateRoleFields, validateRoleTitle } from '../controllers/roleController';
+import { createRole, deleteRole, explainRoleGrantsById, getRoleById, getRoles, updateRole, updateRoleFields, validateRoleTitle } from '../controllers/roleController';
+import { getRoleUsers } from '../controllers/userRoleController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
 
 
 export async function roleRoutes(fastify: FastifyInstance) {
   // ✅ Apply authentication globally for all role routes
-//   fastify.addHook('preHandler', authenticateToken);
+  fastify.addHook('preHandler', authenticateToken);
 
   // Get all roles
   fastify.get('/', {
+    preHandler: authorize({ resource: 'role', permission: 'read' }),
     handler: getRoles,
   });
 
   // Validate role title (static route before dynamic one)
   fastify.get('/check/title', {
+    preHandler: authorize({ resource: 'role', permission: 'read' }),
     handler: validateRoleTitle,
   });
 
   //  Get role by ID
   fastify.get('/:roleId', {
+    preHandler: authorize({ resource: 'role', permission: 'read' }),
     handler: getRoleById,
   });
 
   //  Create role
   fastify.post('/', {
+    preHandler: authorize({ resource: 'role', permission: 'create' }),
     handler: createRole,
   });
 
   //  Update role (full)
   fastify.put('/:roleId', {
+    preHandler: authorize({ resource: 'role', permission: 'update' }),
     handler: updateRole,
   });
 
   //  Update partial role fields
   fastify.patch('/:roleId', {
+    preHandler: authorize({ resource: 'role', permission: 'update' }),
     handler: updateRoleFields,
   });
 
+  // Explain the effective (inherited) grants of a role
+  fastify.get('/:roleId/explain', {
+    preHandler: authorize({ resource: 'role', permission: 'read' }),
+    handler: explainRoleGrantsById,
+  });
+
+  // Get users assigned to a role
+  fastify.get('/:roleId/users', {
+    preHandler: authorize({ resource: 'user_role', permission: 'read' }),
+    handler: getRoleUsers,
+  });
+
   // Delete role
   fastify.delete('/:roleId', {
+    preHandler: authorize({ resource: 'role', permission: 'delete' }),
     handler: deleteRole,
   });
 }
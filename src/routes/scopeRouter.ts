@@ -1,12 +1,18 @@
 import { FastifyInstance } from 'fastify';
 import { createScope, deleteScope, getScopeById, getScopes, updateScope, updateScopeFields, validateScopeTitle } from '../controllers/scopeController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
 
 export async function scopeRoutes(fastify: FastifyInstance) {
-  
+
+  // Apply authentication globally for all scope routes
+  fastify.addHook('preHandler', authenticateToken);
+
   // Get all scopes
   fastify.get('/', {
     schema: {
     },
+    preHandler: authorize({ resource: 'scope', permission: 'read' }),
     handler: getScopes,
   });
 
@@ -14,6 +20,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
   fastify.get('/check/title', {
     schema: {
     },
+    preHandler: authorize({ resource: 'scope', permission: 'read' }),
     handler: validateScopeTitle,
   });
 
@@ -29,6 +36,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
         required: ['scopeId'],
       },
     },
+    preHandler: authorize({ resource: 'scope', permission: 'read' }),
     handler: getScopeById,
   });
 
@@ -45,6 +53,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
         required: ['name','description'],
       },
     },
+    preHandler: authorize({ resource: 'scope', permission: 'create' }),
     handler: createScope,
   });
 
@@ -67,6 +76,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
         },
       },
     },
+    preHandler: authorize({ resource: 'scope', permission: 'update' }),
     handler: updateScope,
   });
 
@@ -89,6 +99,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
         },
       },
     },
+    preHandler: authorize({ resource: 'scope', permission: 'update' }),
     handler: updateScopeFields,
   });
 
@@ -104,6 +115,7 @@ export async function scopeRoutes(fastify: FastifyInstance) {
         required: ['scopeId'],
       },
     },
+    preHandler: authorize({ resource: 'scope', permission: 'delete' }),
     handler: deleteScope,
   });
 }
@@ -0,0 +1,58 @@
+/**
+ * User Role Routes
+ * ----------------
+ * Handles assignment and revocation of roles for a user.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { assignUserRole, bulkAssignUserRoles, getUserRoles, revokeUserRole } from '../controllers/userRoleController';
+import { authenticateToken } from '../middlewares/auth/authMiddleware';
+import { authorize } from '../middlewares/auth/rbacMiddleware';
+
+export async function userRoleRoutes(fastify: FastifyInstance) {
+
+  // Apply authentication globally for all user role routes
+  fastify.addHook('preHandler', authenticateToken);
+
+  // Get roles of a user
+  fastify.get('/:userId/roles', {
+    preHandler: authorize({ resource: 'user_role', permission: 'read' }),
+    handler: getUserRoles,
+  });
+
+  // Assign a role to a user
+  fastify.post('/:userId/roles', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', minLength: 1 },
+        },
+        required: ['role'],
+      },
+    },
+    preHandler: authorize({ resource: 'user_role', permission: 'create' }),
+    handler: assignUserRole,
+  });
+
+  // Bulk assign roles to a user (static route before dynamic one)
+  fastify.post('/:userId/roles/bulk', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          roles: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+        },
+        required: ['roles'],
+      },
+    },
+    preHandler: authorize({ resource: 'user_role', permission: 'create' }),
+    handler: bulkAssignUserRoles,
+  });
+
+  // Revoke a role from a user
+  fastify.delete('/:userId/roles/:roleId', {
+    preHandler: authorize({ resource: 'user_role', permission: 'delete' }),
+    handler: revokeUserRole,
+  });
+}
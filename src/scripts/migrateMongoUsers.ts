@@ -0,0 +1,94 @@
+/**
+ * Copies the users of the mongodb `users` collection into the mysql User entity.
+ *
+ * - Users already migrated (matched by `mongoId`) are skipped.
+ * - Users with an existing mysql account (matched by email) are linked through `mongoId`.
+ * - Password hashes are copied as-is, so existing credentials keep working.
+ * - Tokens carrying a mongo id are not accepted anymore, those users log in again.
+ *
+ * Run after building: `npm run migrate:users`
+ */
+
+import Fastify from 'fastify';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { initLogger } from '../utils/logger';
+
+dotenv.config();
+const app = Fastify({ logger: true });
+
+// initialize logger here
+initLogger(app);
+
+import { AppDataSource } from '../config/database';
+import { createUser, findUserByEmail, findUserByMongoId, updateUser } from '../utils/userUtil';
+import { isInvalid } from '../utils/util';
+
+const migrateMongoUsers = async () => {
+    const logger = app.log;
+    const summary = { created: 0, linked: 0, skipped: 0, failed: 0 };
+
+    try {
+        await AppDataSource.initialize();
+        await mongoose.connect(process.env.MONGO_DB_URI);
+
+        const mongoUsers = await mongoose.connection.db.collection('users').find({}).toArray();
+        logger.info(`Found ${mongoUsers.length} users in mongodb.`);
+
+        for (const mongoUser of mongoUsers) {
+            const mongoId = mongoUser._id.toString();
+
+            try {
+                const migratedUser = await findUserByMongoId(mongoId);
+                if (migratedUser) {
+                    summary.skipped++;
+                    continue;
+                }
+
+                const existingUser = await findUserByEmail(mongoUser.email);
+                if (existingUser) {
+                    logger.info(`Linking mongo user ${mongoId} to existing user ${existingUser.id}.`);
+                    await updateUser(existingUser.id, {
+                        mongoId,
+                        googleId: existingUser.googleId ?? mongoUser.googleId,
+                        avatar: existingUser.avatar ?? mongoUser.avatar,
+                    });
+                    summary.linked++;
+                    continue;
+                }
+
+                if (isInvalid(mongoUser.email) || isInvalid(mongoUser.password)) {
+                    logger.info(`Mongo user ${mongoId} has no email or password. Skipping.`);
+                    summary.skipped++;
+                    continue;
+                }
+
+                await createUser({
+                    email: mongoUser.email,
+                    password: mongoUser.password,
+                    firstName: mongoUser.firstName,
+                    lastName: mongoUser.lastName,
+                    userName: mongoUser.userName,
+                    role: mongoUser.role,
+                    avatar: mongoUser.avatar,
+                    googleId: mongoUser.googleId,
+                    mongoId,
+                });
+                summary.created++;
+            } catch (error) {
+                logger.error(`Error migrating mongo user ${mongoId}: ${error.message}`);
+                summary.failed++;
+            }
+        }
+
+        logger.info(`User migration completed: ${JSON.stringify(summary)}`);
+    } catch (error) {
+        logger.error(`Error While Migrating Users: ${error.message}`);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.connection.close();
+        if (AppDataSource.isInitialized) await AppDataSource.destroy();
+    }
+};
+
+migrateMongoUsers();
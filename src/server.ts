@@ -1,5 +1,8 @@
 import app from "./app";
 import { connectDB } from "./config/database";
+import { connectCache } from "./utils/cache/cacheUtils";
+import { warmUpRBACPolicyMap } from "./utils/rbacUtil";
+import { startRBACExpirySweeper } from "./utils/rbacExpiryUtil";
 
 const PORT = parseInt(process.env.PORT) || 3002;
 
@@ -7,6 +10,9 @@ const PORT = parseInt(process.env.PORT) || 3002;
 const startServer = async () => {
     try {
         await connectDB(app); // connect to sql database
+        await connectCache(); // connect to cache store and invalidation channel
+        await warmUpRBACPolicyMap(); // preload the RBAC policy map
+        startRBACExpirySweeper(); // soft delete expired policies and role assignments
         await app.listen({ port: PORT });
         app.log.info(`Fastify Server Of Binary Brains Running On PORT : ${PORT}`);
     } catch (error) {
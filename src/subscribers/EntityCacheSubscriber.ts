@@ -0,0 +1,93 @@
+/**
+ * Entity Cache Subscriber
+ * -----------------------
+ * Drops the cached queries (sqlUtils read-through cache) of an entity whenever it is written.
+ * Entities with a relation to the written entity are dropped as well, since their cached
+ * queries may have loaded it as a relation.
+ *
+ * Like the RBAC cache subscriber, writes inside a transaction are collected on the query
+ * runner and only invalidated once the outermost transaction commits.
+ */
+
+import {
+  EntityMetadata,
+  EntitySubscriberInterface,
+  EventSubscriber,
+  InsertEvent,
+  QueryRunner,
+  RemoveEvent,
+  SoftRemoveEvent,
+  TransactionCommitEvent,
+  TransactionRollbackEvent,
+  UpdateEvent,
+} from "typeorm";
+import { getLogger } from "../utils/logger";
+import { invalidateEntityCache } from "../utils/sql/sqlUtils";
+
+const logger = getLogger();
+
+// query runner data key holding the entity names written in the running transaction
+const PENDING_ENTITY_CACHE_KEY = "pendingEntityCacheInvalidations";
+
+@EventSubscriber()
+export class EntityCacheSubscriber implements EntitySubscriberInterface {
+
+  afterInsert(event: InsertEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterUpdate(event: UpdateEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterRemove(event: RemoveEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterSoftRemove(event: SoftRemoveEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  async afterTransactionCommit(event: TransactionCommitEvent) {
+    const pending: Set<string> | undefined = event.queryRunner.data?.[PENDING_ENTITY_CACHE_KEY];
+    if (event.queryRunner.isTransactionActive || !pending) return;
+
+    delete event.queryRunner.data[PENDING_ENTITY_CACHE_KEY];
+    await this.invalidate(pending);
+  }
+
+  afterTransactionRollback(event: TransactionRollbackEvent) {
+    if (event.queryRunner.isTransactionActive) return;
+    delete event.queryRunner.data?.[PENDING_ENTITY_CACHE_KEY];
+  }
+
+  private async handleWrite(metadata: EntityMetadata, queryRunner: QueryRunner) {
+    if (!metadata) return;
+
+    const entityNames = new Set([metadata.name]);
+    for (const relatedMetadata of metadata.connection.entityMetadatas) {
+      if (relatedMetadata.relations.some((relation) => relation.inverseEntityMetadata === metadata)) {
+        entityNames.add(relatedMetadata.name);
+      }
+    }
+
+    if (queryRunner?.isTransactionActive) {
+      const pending: Set<string> = queryRunner.data?.[PENDING_ENTITY_CACHE_KEY] ?? new Set();
+      entityNames.forEach((name) => pending.add(name));
+      queryRunner.data = { ...queryRunner.data, [PENDING_ENTITY_CACHE_KEY]: pending };
+      return;
+    }
+
+    await this.invalidate(entityNames);
+  }
+
+  private async invalidate(entityNames: Set<string>) {
+    for (const entityName of entityNames) {
+      try {
+        await invalidateEntityCache(entityName);
+      } catch (err) {
+        logger.error(`Error invalidating cache of entity ${entityName}:`, err);
+      }
+    }
+  }
+}
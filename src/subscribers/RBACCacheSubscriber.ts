@@ -0,0 +1,91 @@
+/**
+ * RBAC Cache Subscriber
+ * ---------------------
+ * Invalidates the cached RBAC policy maps whenever a policy, role, permission,
+ * resource, scope or organization is written, so permission changes apply immediately.
+ *
+ * Writes inside a transaction only mark the query runner; the cache is invalidated
+ * once the outermost transaction commits and the mark is dropped on rollback
+ * (e.g. dry runs). Otherwise a rebuild could cache data which is never committed.
+ */
+
+import {
+  EntityMetadata,
+  EntitySubscriberInterface,
+  EventSubscriber,
+  InsertEvent,
+  QueryRunner,
+  RemoveEvent,
+  SoftRemoveEvent,
+  TransactionCommitEvent,
+  TransactionRollbackEvent,
+  UpdateEvent,
+} from "typeorm";
+import { Policy } from "../entities/Policy";
+import { Role } from "../entities/Role";
+import { Permission } from "../entities/Permission";
+import { Resource } from "../entities/Resource";
+import { Scope } from "../entities/Scope";
+import { Organization } from "../entities/Organization";
+import { getLogger } from "../utils/logger";
+import { invalidateRBACPolicyMap } from "../utils/rbacUtil";
+
+const logger = getLogger();
+
+// entities which are part of the RBAC policy map
+const RBAC_ENTITIES: Function[] = [Policy, Role, Permission, Resource, Scope, Organization];
+
+// query runner data flag for writes pending commit
+const RBAC_CACHE_STALE_FLAG = "rbacCacheStale";
+
+@EventSubscriber()
+export class RBACCacheSubscriber implements EntitySubscriberInterface {
+
+  afterInsert(event: InsertEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterUpdate(event: UpdateEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterRemove(event: RemoveEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  afterSoftRemove(event: SoftRemoveEvent<any>) {
+    return this.handleWrite(event.metadata, event.queryRunner);
+  }
+
+  async afterTransactionCommit(event: TransactionCommitEvent) {
+    // savepoint releases keep the flag until the outermost commit
+    if (event.queryRunner.isTransactionActive || !event.queryRunner.data?.[RBAC_CACHE_STALE_FLAG]) return;
+
+    delete event.queryRunner.data[RBAC_CACHE_STALE_FLAG];
+    await this.invalidate();
+  }
+
+  afterTransactionRollback(event: TransactionRollbackEvent) {
+    if (event.queryRunner.isTransactionActive) return;
+    delete event.queryRunner.data?.[RBAC_CACHE_STALE_FLAG];
+  }
+
+  private async handleWrite(metadata: EntityMetadata, queryRunner: QueryRunner) {
+    if (!RBAC_ENTITIES.includes(metadata?.target as Function)) return;
+
+    if (queryRunner?.isTransactionActive) {
+      queryRunner.data = { ...queryRunner.data, [RBAC_CACHE_STALE_FLAG]: true };
+      return;
+    }
+
+    await this.invalidate();
+  }
+
+  private async invalidate() {
+    try {
+      await invalidateRBACPolicyMap();
+    } catch (err) {
+      logger.error("Error invalidating RBAC policy map cache:", err);
+    }
+  }
+}
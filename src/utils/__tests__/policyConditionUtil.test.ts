@@ -0,0 +1,66 @@
+import './testLogger';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluatePolicyCondition, validatePolicyCondition } from '../policyConditionUtil';
+
+const context = {
+  subject: { userId: '1', roles: ['STUDENT'] },
+  resource: { ownerId: '1', tags: ['draft'], title: 'Intro to TypeScript', createdAt: new Date('2024-01-01T00:00:00.000Z'), score: 7 },
+  environment: { now: '2024-06-01T00:00:00.000Z', method: 'GET' },
+};
+
+describe('evaluatePolicyCondition', () => {
+  it('compares references and literals', () => {
+    assert.equal(evaluatePolicyCondition({ eq: [{ var: 'resource.ownerId' }, { var: 'subject.userId' }] }, context), true);
+    assert.equal(evaluatePolicyCondition({ ne: [{ var: 'environment.method' }, 'GET'] }, context), false);
+    assert.equal(evaluatePolicyCondition({ gte: [{ var: 'resource.score' }, 5] }, context), true);
+    assert.equal(evaluatePolicyCondition({ lt: [{ var: 'resource.score' }, 5] }, context), false);
+    assert.equal(evaluatePolicyCondition({ in: [{ var: 'environment.method' }, ['GET', 'HEAD']] }, context), true);
+    assert.equal(evaluatePolicyCondition({ contains: [{ var: 'resource.tags' }, 'draft'] }, context), true);
+    assert.equal(evaluatePolicyCondition({ contains: [{ var: 'resource.title' }, 'Type'] }, context), true);
+  });
+
+  it('compares dates as ISO strings', () => {
+    assert.equal(evaluatePolicyCondition({ lte: [{ var: 'resource.createdAt' }, { var: 'environment.now' }] }, context), true);
+  });
+
+  it('combines conditions with and, or and not', () => {
+    const isOwner = { eq: [{ var: 'resource.ownerId' }, { var: 'subject.userId' }] };
+    const isPost = { eq: [{ var: 'environment.method' }, 'POST'] };
+
+    assert.equal(evaluatePolicyCondition({ and: [isOwner, isPost] }, context), false);
+    assert.equal(evaluatePolicyCondition({ or: [isOwner, isPost] }, context), true);
+    assert.equal(evaluatePolicyCondition({ not: isPost }, context), true);
+  });
+
+  it('evaluates missing or not comparable values to false', () => {
+    assert.equal(evaluatePolicyCondition({ eq: [{ var: 'resource.missing' }, { var: 'resource.unknown' }] }, context), false);
+    assert.equal(evaluatePolicyCondition({ gt: [{ var: 'resource.score' }, '5'] }, context), false);
+    assert.equal(evaluatePolicyCondition({ exists: { var: 'resource.missing' } }, context), false);
+    assert.equal(evaluatePolicyCondition({ exists: { var: 'resource.ownerId' } }, context), true);
+    assert.equal(evaluatePolicyCondition({ eq: [{ var: 'resource.ownerId' }, '1'] }), false);
+  });
+
+  it('evaluates malformed conditions to onError', () => {
+    const malformed = [
+      { unknown: [1, 2] },
+      { eq: [1] },
+      { eq: [1, 1], ne: [1, 2] },
+      { eq: [{ var: 'resource.__proto__' }, 1] },
+      { not: { unknown: true } },
+    ];
+
+    for (const condition of malformed) {
+      assert.equal(evaluatePolicyCondition(condition, context), false, JSON.stringify(condition));
+      assert.equal(evaluatePolicyCondition(condition, context, true), true, JSON.stringify(condition));
+    }
+  });
+
+  it('refuses conditions nested too deep', () => {
+    let condition: Record<string, unknown> = { eq: [1, 1] };
+    for (let depth = 0; depth < 12; depth++) condition = { not: condition };
+
+    assert.ok(validatePolicyCondition(condition).some((error) => error.includes('nested deeper')));
+    assert.equal(evaluatePolicyCondition(condition, context, true), true);
+  });
+});
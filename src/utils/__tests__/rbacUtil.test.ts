@@ -0,0 +1,120 @@
+import './testLogger';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decideAccess, POLICY_EFFECT, PolicyEffect, RBACMap } from '../rbacUtil';
+
+/**
+ * Builds a policy map from [role, resource, permission, scope, effect, policyId] rows
+ */
+const buildMap = (rows: [string, string, string, string, PolicyEffect, string][]): RBACMap => {
+  const map: RBACMap = {};
+  for (const [role, resource, permission, scope, effect, policyId] of rows) {
+    map[role] ??= {};
+    map[role][resource] ??= {};
+    map[role][resource][permission] ??= {};
+    map[role][resource][permission][scope] = { policyId, effect };
+  }
+  return map;
+};
+
+const { ALLOW, DENY } = POLICY_EFFECT;
+
+describe('decideAccess', () => {
+  it('allows a role granted the required scope', () => {
+    const map = buildMap([['STUDENT', 'POST', 'READ', 'GLOBAL', ALLOW, 'p1']]);
+
+    const decision = decideAccess(map, ['student'], { resource: 'post', permission: 'read', scope: 'global' }, {});
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.match?.policyId, 'p1');
+    assert.equal(decision.deniedBy, null);
+  });
+
+  it('refuses when no role is granted the required scope', () => {
+    const map = buildMap([['STUDENT', 'POST', 'READ', 'OWN', ALLOW, 'p1']]);
+
+    assert.equal(decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'read', scope: 'global' }, {}).allowed, false);
+    assert.equal(decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'delete' }, {}).allowed, false);
+    assert.equal(decideAccess(map, ['TEACHER'], { resource: 'post', permission: 'read' }, {}).allowed, false);
+  });
+
+  it('accepts any granted scope when no scope is required', () => {
+    const map = buildMap([['STUDENT', 'POST', 'READ', 'OWN', ALLOW, 'p1']]);
+
+    assert.equal(decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'read' }, {}).allowed, true);
+  });
+
+  it('lets a deny of the required scope override the allows of other roles', () => {
+    const map = buildMap([
+      ['TEACHER', 'POST', 'DELETE', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'POST', 'DELETE', 'GLOBAL', DENY, 'deny'],
+    ]);
+
+    const decision = decideAccess(map, ['TEACHER', 'STUDENT'], { resource: 'post', permission: 'delete', scope: 'global' }, {});
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.match, null);
+    assert.equal(decision.deniedBy?.policyId, 'deny');
+  });
+
+  it('applies a global deny to every scope', () => {
+    const map = buildMap([
+      ['TEACHER', 'POST', 'DELETE', 'OWN', ALLOW, 'allow'],
+      ['STUDENT', 'POST', 'DELETE', 'ALL', DENY, 'deny'],
+    ]);
+    const roles = ['TEACHER', 'STUDENT'];
+
+    assert.equal(decideAccess(map, roles, { resource: 'post', permission: 'delete', scope: 'own' }, {}).deniedBy?.policyId, 'deny');
+    assert.equal(decideAccess(map, roles, { resource: 'post', permission: 'delete' }, {}).deniedBy?.policyId, 'deny');
+  });
+
+  it('does not apply a deny of another scope', () => {
+    const map = buildMap([
+      ['STUDENT', 'POST', 'DELETE', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'POST', 'DELETE', 'OWN', DENY, 'deny'],
+    ]);
+
+    const global = decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'delete', scope: 'global' }, {});
+    assert.equal(global.allowed, true);
+    assert.equal(global.match?.policyId, 'allow');
+
+    const own = decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'delete', scope: 'own' }, {});
+    assert.equal(own.allowed, false);
+    assert.equal(own.deniedBy?.policyId, 'deny');
+
+    // without a required scope the own deny depends on the record, the route guard lets it through
+    assert.equal(decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'delete' }, {}).allowed, true);
+  });
+
+  it('applies conditional policies only when their condition holds', () => {
+    const map = buildMap([
+      ['STUDENT', 'POST', 'UPDATE', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'POST', 'UPDATE', 'ALL', DENY, 'deny'],
+    ]);
+    const conditions = { deny: { eq: [{ var: 'resource.locked' }, true] } };
+    const requirement = { resource: 'post', permission: 'update', scope: 'global' };
+
+    assert.equal(decideAccess(map, ['STUDENT'], requirement, conditions, { resource: { locked: false } }).allowed, true);
+
+    const locked = decideAccess(map, ['STUDENT'], requirement, conditions, { resource: { locked: true } });
+    assert.equal(locked.allowed, false);
+    assert.equal(locked.deniedBy?.conditional, true);
+  });
+
+  it('fails closed on broken conditions', () => {
+    const map = buildMap([
+      ['STUDENT', 'POST', 'UPDATE', 'GLOBAL', ALLOW, 'allow'],
+      ['TEACHER', 'POST', 'UPDATE', 'GLOBAL', DENY, 'deny'],
+    ]);
+    const broken = { unknown: [1, 2] };
+    const requirement = { resource: 'post', permission: 'update', scope: 'global' };
+
+    // a broken allow grants nothing, a broken deny still refuses
+    assert.equal(decideAccess(map, ['STUDENT'], requirement, { allow: broken }).allowed, false);
+    assert.equal(decideAccess(map, ['STUDENT', 'TEACHER'], requirement, { deny: broken }).deniedBy?.policyId, 'deny');
+  });
+
+  it('refuses everything without the conditions map', () => {
+    const map = buildMap([['STUDENT', 'POST', 'READ', 'GLOBAL', ALLOW, 'p1']]);
+
+    assert.equal(decideAccess(map, ['STUDENT'], { resource: 'post', permission: 'read' }, null).allowed, false);
+  });
+});
@@ -0,0 +1,112 @@
+import './testLogger';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { POLICY_EFFECT, PolicyEffect, RBACMap } from '../rbacUtil';
+import { decideTargetAccess, registerScopeResolver, ScopeResolverContext } from '../scopeResolverUtil';
+
+const buildMap = (rows: [string, string, PolicyEffect, string][]): RBACMap => {
+  const map: RBACMap = { STUDENT: { POST: { DELETE: {} } } };
+  for (const [role, scope, effect, policyId] of rows) {
+    map[role] ??= { POST: { DELETE: {} } };
+    map[role].POST.DELETE[scope] = { policyId, effect };
+  }
+  return map;
+};
+
+const requirement = { resource: 'post', permission: 'delete' };
+
+const scopeContext = (target: Record<string, any>): ScopeResolverContext => ({
+  subject: { userId: '1', roles: ['STUDENT'] },
+  tenant: null,
+  target,
+  ...requirement,
+});
+
+const ownPost = { id: 'a', createdBy: { id: '1' } };
+const otherPost = { id: 'b', createdBy: { id: '2' } };
+
+const { ALLOW, DENY } = POLICY_EFFECT;
+
+registerScopeResolver('broken', () => {
+  throw new Error('resolver failed');
+});
+
+describe('decideTargetAccess', () => {
+  it('applies an own deny to the caller\'s records only, a global allow covers the others', async () => {
+    const map = buildMap([
+      ['STUDENT', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'OWN', DENY, 'deny'],
+    ]);
+
+    const other = await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(otherPost));
+    assert.equal(other.allowed, true);
+    assert.equal(other.match?.policyId, 'allow');
+
+    const own = await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(ownPost));
+    assert.equal(own.allowed, false);
+    assert.equal(own.deniedBy?.policyId, 'deny');
+  });
+
+  it('applies an own deny of another role to the caller\'s records', async () => {
+    const map = buildMap([
+      ['STUDENT', 'GLOBAL', ALLOW, 'allow'],
+      ['BANNED', 'OWN', DENY, 'deny'],
+    ]);
+    const roles = ['STUDENT', 'BANNED'];
+
+    assert.equal((await decideTargetAccess(map, roles, requirement, {}, scopeContext(otherPost))).allowed, true);
+    assert.equal((await decideTargetAccess(map, roles, requirement, {}, scopeContext(ownPost))).deniedBy?.policyId, 'deny');
+  });
+
+  it('applies a global deny to every record', async () => {
+    const map = buildMap([
+      ['STUDENT', 'OWN', ALLOW, 'allow'],
+      ['STUDENT', 'GLOBAL', DENY, 'deny'],
+    ]);
+
+    assert.equal((await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(ownPost))).deniedBy?.policyId, 'deny');
+    assert.equal((await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(otherPost))).deniedBy?.policyId, 'deny');
+  });
+
+  it('grants an own allow for the caller\'s records only', async () => {
+    const map = buildMap([['STUDENT', 'OWN', ALLOW, 'allow']]);
+
+    assert.equal((await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(ownPost))).allowed, true);
+    assert.equal((await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(otherPost))).allowed, false);
+  });
+
+  it('ignores scopes without a resolver', async () => {
+    const map = buildMap([
+      ['STUDENT', 'DEPARTMENT', ALLOW, 'allow'],
+      ['STUDENT', 'OWN', ALLOW, 'own'],
+    ]);
+
+    assert.equal((await decideTargetAccess(map, ['STUDENT'], requirement, {}, scopeContext(otherPost))).allowed, false);
+  });
+
+  it('applies a deny whose resolver fails, but no allow', async () => {
+    const denied = buildMap([
+      ['STUDENT', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'BROKEN', DENY, 'deny'],
+    ]);
+    assert.equal((await decideTargetAccess(denied, ['STUDENT'], requirement, {}, scopeContext(otherPost))).deniedBy?.policyId, 'deny');
+
+    const allowed = buildMap([['STUDENT', 'BROKEN', ALLOW, 'allow']]);
+    assert.equal((await decideTargetAccess(allowed, ['STUDENT'], requirement, {}, scopeContext(otherPost))).allowed, false);
+  });
+
+  it('evaluates conditions against the record', async () => {
+    const map = buildMap([
+      ['STUDENT', 'GLOBAL', ALLOW, 'allow'],
+      ['STUDENT', 'OWN', DENY, 'deny'],
+    ]);
+    const conditions = { deny: { eq: [{ var: 'resource.locked' }, true] } };
+    const lockedPost = { ...ownPost, locked: true };
+
+    const unlocked = await decideTargetAccess(map, ['STUDENT'], requirement, conditions, scopeContext(ownPost), { resource: ownPost });
+    assert.equal(unlocked.allowed, true);
+
+    const locked = await decideTargetAccess(map, ['STUDENT'], requirement, conditions, scopeContext(lockedPost), { resource: lockedPost });
+    assert.equal(locked.deniedBy?.policyId, 'deny');
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Initializes the shared logger with a silent Fastify logger.
+ * Import it first in every test file: the utils read the logger when they are loaded.
+ */
+
+import Fastify from 'fastify';
+import { initLogger } from '../logger';
+
+initLogger(Fastify({ logger: false }));
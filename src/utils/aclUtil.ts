@@ -0,0 +1,332 @@
+/**
+ * Access Control List Utility Module
+ * ----------------------------------
+ * Applies bulk grant/revoke operations on policies and reports a status per item.
+ *
+ * A grant creates an allow policy, or a deny policy with `effect: 'deny'`. Granting
+ * an existing policy with the other effect switches its effect.
+ *
+ * Referenced roles, permissions, resources and scopes are resolved with one query
+ * per entity type, and the existing policies of the batch with a single query.
+ *
+ * Modes:
+ *  - atomic (default) → the whole batch runs in one transaction and is rolled back
+ *    as soon as one item is invalid, not found or fails
+ *  - non atomic       → every item runs in its own savepoint, valid items are committed
+ *
+ * The batch can run on the query runner of an outer transaction (e.g. a dry run preview),
+ * in which case it is applied inside a savepoint.
+ *
+ * Inside an organization (tenant) names resolve to the tenant's and the global records,
+ * while only the tenant's own policies are created, switched or revoked.
+ */
+
+import { EntityManager, EntityTarget, FindOptionsWhere, In, QueryRunner } from "typeorm";
+import { Policy } from "../entities/Policy";
+import { Role } from "../entities/Role";
+import { Permission } from "../entities/Permission";
+import { Resource } from "../entities/Resource";
+import { Scope } from "../entities/Scope";
+import { getLogger } from "./logger";
+import { createQueryRunner } from "./sql/sqlUtils";
+import { POLICY_EFFECT, PolicyEffect } from "./rbacUtil";
+import { getTenantOwnedWhere, getTenantScopeWhere } from "./tenantUtil";
+
+const logger = getLogger();
+
+export const ACL_ITEM_STATUS = {
+  CREATED: "created",
+  UPDATED: "updated",
+  ALREADY_EXISTS: "already-exists",
+  REVOKED: "revoked",
+  NOT_FOUND: "not-found",
+  INVALID: "invalid",
+  FAILED: "failed",
+} as const;
+
+export type AclItemStatus = typeof ACL_ITEM_STATUS[keyof typeof ACL_ITEM_STATUS];
+
+// statuses which roll back an atomic batch
+const ACL_FAILED_STATUSES: AclItemStatus[] = [ACL_ITEM_STATUS.INVALID, ACL_ITEM_STATUS.NOT_FOUND, ACL_ITEM_STATUS.FAILED];
+
+export interface AccessControl {
+  role: string;
+  permission: string;
+  resource: string;
+  scope: string;
+  effect?: PolicyEffect;
+  grantOrRevoke?: "grant" | "revoke";
+}
+
+export interface AccessControlResult {
+  index: number;
+  role: string;
+  permission: string;
+  resource: string;
+  scope: string;
+  effect: string;
+  grantOrRevoke: string;
+  status: AclItemStatus;
+  policyId?: string;
+  message?: string;
+}
+
+export interface AccessControlReport {
+  atomic: boolean;
+  committed: boolean;
+  summary: Record<AclItemStatus, number>;
+  results: AccessControlResult[];
+}
+
+const normalizeName = (value: unknown) => (typeof value === "string" ? value.trim().toLowerCase() : "");
+
+const uniqueNames = (names: string[]) => [...new Set(names.filter((name) => name.length > 0))];
+
+const getPolicyKey = (roleId: string, permissionId: string, resourceId: string, scopeId: string) =>
+  `${roleId}:${permissionId}:${resourceId}:${scopeId}`;
+
+// roles, permissions, resources and scopes are referenced by name
+interface NamedRecord {
+  id: string;
+  name: string;
+  isDeleted: boolean;
+  organizationId: string | null;
+}
+
+/**
+ * Loads the active records of the given names visible inside the tenant, keyed by name
+ */
+const getRecordsByName = async (manager: EntityManager, model: EntityTarget<NamedRecord>, names: string[], tenant: string | null) => {
+  if (names.length === 0) return new Map<string, any>();
+
+  const where: FindOptionsWhere<NamedRecord> = { name: In(names), isDeleted: false, ...getTenantScopeWhere(tenant) };
+  const records = await manager.find(model, { where });
+  // the tenant's own record wins over a global one of the same name
+  const ordered = [...records].sort((a, b) => Number(!!a.organizationId) - Number(!!b.organizationId));
+  return new Map<string, any>(ordered.map((record) => [record.name, record]));
+};
+
+/**
+ * Loads the policies of the tenant (including soft deleted ones) between the resolved entities, keyed by the entity ids
+ */
+const getPoliciesByKey = async (
+  manager: EntityManager,
+  roles: Map<string, Role>,
+  permissions: Map<string, Permission>,
+  resources: Map<string, Resource>,
+  scopes: Map<string, Scope>,
+  tenant: string | null
+) => {
+  const policiesByKey = new Map<string, Policy>();
+  if (!roles.size || !permissions.size || !resources.size || !scopes.size) return policiesByKey;
+
+  const ids = (records: Map<string, { id: string }>) => In([...records.values()].map((record) => record.id));
+
+  const policies = await manager.find(Policy, {
+    where: {
+      role: { id: ids(roles) },
+      permission: { id: ids(permissions) },
+      resource: { id: ids(resources) },
+      scope: { id: ids(scopes) },
+      ...getTenantOwnedWhere(tenant),
+    },
+    relations: { role: true, permission: true, resource: true, scope: true },
+  });
+
+  for (const policy of policies) {
+    policiesByKey.set(getPolicyKey(policy.role.id, policy.permission.id, policy.resource.id, policy.scope.id), policy);
+  }
+
+  return policiesByKey;
+};
+
+/**
+ * Runs a write of a single item. In non atomic mode the write is wrapped in a savepoint,
+ * so a failing item does not abort the other ones.
+ */
+const runItemWrite = async (queryRunner: QueryRunner, atomic: boolean, write: () => Promise<void>) => {
+  if (atomic) return await write();
+
+  await queryRunner.startTransaction();
+  try {
+    await write();
+    await queryRunner.commitTransaction();
+  } catch (error) {
+    await queryRunner.rollbackTransaction();
+    throw error;
+  }
+};
+
+/**
+ * Grants or revokes every access control of the batch inside the tenant and reports the status of each item
+ */
+export const applyAccessControlList = async (
+  accessControls: AccessControl[],
+  userId: string,
+  atomic: boolean = true,
+  outerQueryRunner?: QueryRunner,
+  tenant: string | null = null
+): Promise<AccessControlReport> => {
+  const queryRunner = outerQueryRunner ?? createQueryRunner();
+  const manager = queryRunner.manager;
+  let isFinished = false;
+
+  await queryRunner.startTransaction();
+
+  try {
+    const items = accessControls.map((ac, index) => ({
+      index,
+      action: ac?.grantOrRevoke,
+      role: normalizeName(ac?.role),
+      permission: normalizeName(ac?.permission),
+      resource: normalizeName(ac?.resource),
+      scope: normalizeName(ac?.scope),
+      effect: ac?.effect ?? POLICY_EFFECT.ALLOW,
+    }));
+
+    logger.info(`Resolving references of ${items.length} access controls...`);
+    const [roles, permissions, resources, scopes] = await Promise.all([
+      getRecordsByName(manager, Role, uniqueNames(items.map((item) => item.role)), tenant),
+      getRecordsByName(manager, Permission, uniqueNames(items.map((item) => item.permission)), tenant),
+      getRecordsByName(manager, Resource, uniqueNames(items.map((item) => item.resource)), tenant),
+      getRecordsByName(manager, Scope, uniqueNames(items.map((item) => item.scope)), tenant),
+    ]);
+
+    const policiesByKey = await getPoliciesByKey(manager, roles, permissions, resources, scopes, tenant);
+
+    const results: AccessControlResult[] = [];
+
+    for (const item of items) {
+      const result: AccessControlResult = {
+        index: item.index,
+        role: item.role,
+        permission: item.permission,
+        resource: item.resource,
+        scope: item.scope,
+        effect: item.effect,
+        grantOrRevoke: item.action,
+        status: ACL_ITEM_STATUS.INVALID,
+      };
+      results.push(result);
+
+      if (!item.role || !item.permission || !item.resource || !item.scope || !["grant", "revoke"].includes(item.action)) {
+        result.message = "role, permission, resource, scope and grantOrRevoke ('grant' or 'revoke') are required.";
+        continue;
+      }
+
+      if (!Object.values(POLICY_EFFECT).includes(item.effect)) {
+        result.message = "effect must be 'allow' or 'deny'.";
+        continue;
+      }
+
+      const role = roles.get(item.role);
+      const permission = permissions.get(item.permission);
+      const resource = resources.get(item.resource);
+      const scope = scopes.get(item.scope);
+
+      if (!role || !permission || !resource || !scope) {
+        const missing = [!role && "role", !permission && "permission", !resource && "resource", !scope && "scope"].filter(Boolean);
+        result.status = ACL_ITEM_STATUS.NOT_FOUND;
+        result.message = `Unknown ${missing.join(", ")}.`;
+        continue;
+      }
+
+      const key = getPolicyKey(role.id, permission.id, resource.id, scope.id);
+      const policy = policiesByKey.get(key);
+
+      try {
+        if (item.action === "grant") {
+          if (policy && !policy.isDeleted && policy.effect === item.effect) {
+            result.status = ACL_ITEM_STATUS.ALREADY_EXISTS;
+            result.policyId = policy.id;
+            continue;
+          }
+
+          if (policy && !policy.isDeleted) {
+            await runItemWrite(queryRunner, atomic, async () => {
+              await manager.update(Policy, { id: policy.id }, { effect: item.effect, updatedBy: { id: Number(userId) } });
+            });
+            policy.effect = item.effect;
+            result.policyId = policy.id;
+            result.status = ACL_ITEM_STATUS.UPDATED;
+            continue;
+          }
+
+          if (policy) {
+            // the unique constraint covers soft deleted policies, so they are restored (without the validity period they may have expired with)
+            await runItemWrite(queryRunner, atomic, async () => {
+              await manager.update(Policy, { id: policy.id }, {
+                isDeleted: false,
+                effect: item.effect,
+                validFrom: null,
+                validUntil: null,
+                updatedBy: { id: Number(userId) },
+              });
+            });
+            policy.isDeleted = false;
+            policy.effect = item.effect;
+            result.policyId = policy.id;
+          } else {
+            let newPolicy: Policy;
+            await runItemWrite(queryRunner, atomic, async () => {
+              newPolicy = await manager.save(manager.create(Policy, {
+                role,
+                permission,
+                resource,
+                scope,
+                effect: item.effect,
+                organizationId: tenant,
+                createdBy: { id: Number(userId) },
+                updatedBy: { id: Number(userId) },
+                isDeleted: false,
+              }));
+            });
+            policiesByKey.set(key, newPolicy);
+            result.policyId = newPolicy.id;
+          }
+
+          result.status = ACL_ITEM_STATUS.CREATED;
+        } else {
+          if (!policy || policy.isDeleted) {
+            result.status = ACL_ITEM_STATUS.NOT_FOUND;
+            result.message = "No active policy to revoke.";
+            continue;
+          }
+
+          await runItemWrite(queryRunner, atomic, async () => {
+            await manager.update(Policy, { id: policy.id }, { isDeleted: true, updatedBy: { id: Number(userId) } });
+          });
+          policy.isDeleted = true;
+          result.policyId = policy.id;
+          result.status = ACL_ITEM_STATUS.REVOKED;
+        }
+      } catch (error) {
+        logger.error(`Error applying access control #${item.index}`, error);
+        result.status = ACL_ITEM_STATUS.FAILED;
+        result.message = "Failed to apply the access control.";
+      }
+    }
+
+    const committed = !atomic || !results.some((result) => ACL_FAILED_STATUSES.includes(result.status));
+
+    isFinished = true;
+    if (committed) {
+      await queryRunner.commitTransaction();
+    } else {
+      logger.info("Atomic access control batch has failed items. Rolling back...");
+      await queryRunner.rollbackTransaction();
+    }
+
+    const summary = Object.fromEntries(
+      Object.values(ACL_ITEM_STATUS).map((status) => [status, results.filter((result) => result.status === status).length])
+    ) as Record<AclItemStatus, number>;
+
+    return { atomic, committed, summary, results };
+  } catch (error) {
+    logger.error("Error in applyAccessControlList", error);
+    if (!isFinished) await queryRunner.rollbackTransaction();
+    throw error;
+  } finally {
+    if (!outerQueryRunner) await queryRunner.release();
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * Integration test of the redis cache store against the redis-server at CACHE_REDIS_URL.
+ * Skipped unless REDIS_INTEGRATION_TEST=true.
+ */
+
+import '../../__tests__/testLogger';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { config } from '../../../config/config';
+import { CacheStore, createCacheStore } from '../cacheStores';
+import { RespClient } from '../respClient';
+
+const skip = process.env.REDIS_INTEGRATION_TEST !== 'true' && 'set REDIS_INTEGRATION_TEST=true to run it';
+
+describe('redis cache store', { skip }, () => {
+  let store: CacheStore;
+  const prefix = `integration:${randomUUID()}:`;
+
+  before(async () => {
+    config.CACHE.DRIVER = 'redis';
+    store = createCacheStore();
+    await store.connect?.();
+  });
+
+  after(async () => {
+    await store.delByPrefix(prefix);
+    await store.close?.();
+  });
+
+  it('round trips values, Dates included', async () => {
+    const value = { name: 'admin', createdAt: new Date('2024-01-01T10:00:00.000Z'), tags: ['a', 'b'], parent: null };
+    await store.set(`${prefix}value`, value, 60);
+
+    const cached = await store.get(`${prefix}value`);
+    assert.deepEqual(cached, value);
+    assert.ok((cached as typeof value).createdAt instanceof Date);
+    assert.equal(await store.get(`${prefix}missing`), undefined);
+    assert.equal(await store.has(`${prefix}value`), true);
+  });
+
+  it('keeps ttls and lists and deletes keys by prefix', async () => {
+    await store.set(`${prefix}expiring`, 1, 60);
+    await store.set(`${prefix}other`, 1, 0);
+
+    const ttl = await store.ttl(`${prefix}expiring`);
+    assert.ok(ttl > 0 && ttl <= 60, `unexpected ttl ${ttl}`);
+    assert.equal(await store.ttl(`${prefix}other`), -1);
+    assert.deepEqual((await store.keys(`${prefix}e`, 10)).sort(), [`${prefix}expiring`]);
+
+    assert.equal(await store.delByPrefix(`${prefix}e`), 1);
+    assert.equal(await store.has(`${prefix}expiring`), false);
+    assert.ok(Number.isInteger((await store.stats()).keys));
+  });
+
+  it('delivers published messages to subscribers', async () => {
+    const channel = `${prefix}channel`;
+    const subscriber = new RespClient(config.CACHE.REDIS_URL, { timeout: config.CACHE.TIMEOUT_MS });
+    const publisher = new RespClient(config.CACHE.REDIS_URL, { timeout: config.CACHE.TIMEOUT_MS });
+
+    try {
+      const received = new Promise<string>((resolve) => subscriber.subscribe(channel, resolve));
+      // SUBSCRIBE is not acknowledged to the caller, give the server a moment
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await publisher.command(['PUBLISH', channel, 'hello']);
+      assert.equal(await received, 'hello');
+    } finally {
+      await subscriber.close();
+      await publisher.close();
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import '../../__tests__/testLogger';
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { encodeCommand, parseReply, RespClient } from '../respClient';
+
+/**
+ * Local server speaking RESP: decodes the commands of the clients and answers through `onCommand`
+ */
+const startFakeServer = async (onCommand: (args: string[], socket: net.Socket) => void) => {
+  const sockets = new Set<net.Socket>();
+  const commands: string[][] = [];
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let reply;
+      while ((reply = parseReply(buffer, 0))) {
+        buffer = buffer.subarray(reply.offset);
+        const args = reply.value as string[];
+        commands.push(args);
+        onCommand(args, socket);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    commands,
+    sockets,
+    close: async () => {
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+};
+
+const waitFor = async (check: () => boolean, timeout = 3000) => {
+  const startedAt = Date.now();
+  while (!check()) {
+    if (Date.now() - startedAt > timeout) throw new Error('condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('parseReply', () => {
+  const parse = (raw: string) => parseReply(Buffer.from(raw), 0);
+
+  it('parses simple strings, errors and integers', () => {
+    assert.deepEqual(parse('+OK\r\n'), { value: 'OK', offset: 5 });
+    assert.deepEqual(parse(':42\r\n'), { value: 42, offset: 5 });
+
+    const error = parse('-ERR unknown command\r\n');
+    assert.ok(error?.value instanceof Error);
+    assert.equal((error.value as Error).message, 'ERR unknown command');
+  });
+
+  it('parses bulk strings by their byte length', () => {
+    const value = 'héllo';
+    const raw = `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    assert.deepEqual(parse(raw), { value, offset: Buffer.byteLength(raw) });
+    assert.deepEqual(parse('$-1\r\n'), { value: null, offset: 5 });
+    assert.deepEqual(parse('$0\r\n\r\n'), { value: '', offset: 6 });
+  });
+
+  it('parses nested arrays', () => {
+    const raw = '*3\r\n$4\r\nSCAN\r\n:1\r\n*2\r\n$1\r\na\r\n$-1\r\n';
+    assert.deepEqual(parse(raw), { value: ['SCAN', 1, ['a', null]], offset: raw.length });
+    assert.deepEqual(parse('*-1\r\n'), { value: null, offset: 5 });
+  });
+
+  it('returns null until the reply is complete', () => {
+    assert.equal(parse('+OK'), null);
+    assert.equal(parse('$5\r\nhel'), null);
+    assert.equal(parse('*2\r\n$1\r\na\r\n'), null);
+  });
+
+  it('parses from an offset', () => {
+    assert.deepEqual(parseReply(Buffer.from('+OK\r\n:7\r\n'), 5), { value: 7, offset: 9 });
+  });
+
+  it('reads what encodeCommand writes', () => {
+    const raw = encodeCommand(['SET', 'kéy', 10]);
+    assert.deepEqual(parse(raw), { value: ['SET', 'kéy', '10'], offset: Buffer.byteLength(raw) });
+  });
+
+  it('rejects unknown reply types', () => {
+    assert.throws(() => parse('?what\r\n'), /Unexpected RESP reply type/);
+  });
+});
+
+describe('RespClient', () => {
+  const servers: { close: () => Promise<void> }[] = [];
+  after(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+  });
+
+  it('resolves replies in command order, also when they arrive split', async () => {
+    // replies are written one after the other, each in two chunks
+    let replies = Promise.resolve();
+    const writeSplit = (socket: net.Socket, reply: string) => {
+      replies = replies.then(async () => {
+        socket.write(reply.slice(0, 3));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        socket.write(reply.slice(3));
+      });
+    };
+
+    const server = await startFakeServer((args, socket) => {
+      if (args[0] === 'GET') writeSplit(socket, `$${args[1].length}\r\n${args[1]}\r\n`);
+      else writeSplit(socket, '-ERR unsupported\r\n');
+    });
+    servers.push(server);
+
+    const client = new RespClient(server.url, { timeout: 1000 });
+    try {
+      const [first, second] = await Promise.all([client.command(['GET', 'one']), client.command(['GET', 'two'])]);
+      assert.equal(first, 'one');
+      assert.equal(second, 'two');
+      await assert.rejects(client.command(['DEL', 'one']), /ERR unsupported/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('fails a command which gets no reply after the timeout and reconnects for the next one', async () => {
+    let silent = true;
+    const server = await startFakeServer((_args, socket) => {
+      if (!silent) socket.write('+PONG\r\n');
+    });
+    servers.push(server);
+
+    const client = new RespClient(server.url, { timeout: 100 });
+    try {
+      const startedAt = Date.now();
+      await assert.rejects(client.command(['PING']), /RESP command PING timed out after 100ms/);
+      assert.ok(Date.now() - startedAt < 1000, 'command did not time out in time');
+
+      silent = false;
+      await waitFor(() => server.sockets.size === 0);
+      assert.equal(await client.command(['PING']), 'PONG');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('subscribes again after the connection was dropped', async () => {
+    const server = await startFakeServer((args, socket) => {
+      if (args[0] === 'SUBSCRIBE') socket.write(`*3\r\n$9\r\nsubscribe\r\n$${args[1].length}\r\n${args[1]}\r\n:1\r\n`);
+    });
+    servers.push(server);
+
+    const messages: string[] = [];
+    const client = new RespClient(server.url, { timeout: 1000 });
+    try {
+      await client.subscribe('events', (message) => messages.push(message));
+      await waitFor(() => server.commands.filter(([name]) => name === 'SUBSCRIBE').length === 1);
+
+      // the server drops the connection, the client reconnects after its delay and subscribes again
+      server.sockets.forEach((socket) => socket.destroy());
+      await waitFor(() => server.commands.filter(([name]) => name === 'SUBSCRIBE').length === 2);
+
+      const [socket] = [...server.sockets];
+      socket.write('*3\r\n$7\r\nmessage\r\n$6\r\nevents\r\n$5\r\nhello\r\n');
+      await waitFor(() => messages.length === 1);
+      assert.deepEqual(messages, ['hello']);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -1,3 +1,11 @@
 
 
 export const RBAC_POLICY_MAP_CACHE_KEY = 'rbac:policies'
+
+export const RBAC_POLICY_CONDITIONS_CACHE_KEY = 'rbac:conditions'
+
+export const ACCESS_TOKEN_DENYLIST_CACHE_KEY_PREFIX = 'auth:denylist:'
+
+export const USER_TOKEN_VERSION_CACHE_KEY_PREFIX = 'auth:tokenVersion:'
+
+export const ENTITY_CACHE_KEY_PREFIX = 'entity:'
@@ -0,0 +1,194 @@
+/*
+    File contains the pluggable cache stores behind cacheUtils.
+
+    Stores are registered by name and selected through `config.CACHE.DRIVER`.
+    Built-in stores:
+        - memory : process-local NodeCache (default)
+        - redis  : any Redis-protocol server at `config.CACHE.REDIS_URL`, shared by all app instances
+
+    Values are stored as JSON in the redis store, so only JSON-serializable data should be cached.
+    Dates are tagged and come back as Date like from the memory store. Class instances
+    (e.g. entities) come back as plain objects, without their methods.
+*/
+
+import NodeCache from "node-cache";
+import { config } from "../../config/config";
+import { RespClient } from "./respClient";
+
+export interface CacheStore {
+  /** true when every app instance sees the same data, so remote invalidations can be ignored */
+  readonly shared?: boolean;
+  /** Prepares the store (e.g. opens connections) */
+  connect?(): Promise<void>;
+  /** Closes the connections opened by connect */
+  close?(): Promise<void>;
+  /** Returns undefined when the key does not exist */
+  get(key: string): Promise<unknown>;
+  /** ttl in seconds, 0 → no expiry */
+  set(key: string, data: unknown, ttl?: number): Promise<void>;
+  del(key: string): Promise<void>;
+  has(key: string): Promise<boolean>;
+  /** Remaining time to live in seconds, -1 when the key does not exist or never expires */
+  ttl(key: string): Promise<number>;
+  /** Deletes every key starting with the prefix and returns the number of deleted keys */
+  delByPrefix(prefix: string): Promise<number>;
+  /** Lists up to `limit` keys starting with the prefix */
+  keys(prefix: string, limit: number): Promise<string[]>;
+  stats(): Promise<CacheStoreStats>;
+}
+
+export interface CacheStoreStats {
+  keys: number;
+  // keys dropped because their ttl ran out
+  expired: number;
+  // keys dropped by the store because of memory limits
+  evicted: number;
+}
+
+const createMemoryCacheStore = (): CacheStore => {
+  const localCache = new NodeCache({ stdTTL: config.DEFAULT_CACHE_TIME });
+
+  let expired = 0;
+  localCache.on("expired", () => {
+    expired += 1;
+  });
+
+  return {
+    async get(key) {
+      return localCache.get(key);
+    },
+    async set(key, data, ttl) {
+      if (ttl === undefined) localCache.set(key, data);
+      else localCache.set(key, data, ttl);
+    },
+    async del(key) {
+      localCache.del(key);
+    },
+    async has(key) {
+      return localCache.has(key);
+    },
+    async ttl(key) {
+      const ttl = localCache.getTtl(key);
+      if (!ttl) return -1;
+      return Math.floor((ttl - Date.now()) / 1000);
+    },
+    async delByPrefix(prefix) {
+      const keys = localCache.keys().filter((k) => k.startsWith(prefix));
+      return localCache.del(keys);
+    },
+    async keys(prefix, limit) {
+      return localCache.keys().filter((k) => k.startsWith(prefix)).slice(0, limit);
+    },
+    async stats() {
+      // NodeCache has no size limit, so nothing is evicted
+      return { keys: localCache.keys().length, expired, evicted: 0 };
+    },
+  };
+};
+
+// JSON tag of Date values in the redis store: { "$date": "2024-01-01T10:00:00.000Z" }
+const DATE_TAG = "$date";
+
+const serializeValue = (data: unknown): string => {
+  return JSON.stringify(data, function (key, value) {
+    // `value` is already the toJSON() string, the Date is still on the holder
+    const raw = this[key];
+    if (!(raw instanceof Date)) return value;
+    return isNaN(raw.getTime()) ? null : { [DATE_TAG]: raw.toISOString() };
+  });
+};
+
+const deserializeValue = (value: string): unknown => {
+  return JSON.parse(value, (key, item) => {
+    const isDate = item !== null && typeof item === "object" && !Array.isArray(item)
+      && Object.keys(item).length === 1 && typeof item[DATE_TAG] === "string";
+    return isDate ? new Date(item[DATE_TAG]) : item;
+  });
+};
+
+// escapes the glob characters of a key prefix for SCAN MATCH
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, (char) => `\\${char}`);
+
+const createRedisCacheStore = (): CacheStore => {
+  const client = new RespClient(config.CACHE.REDIS_URL, { timeout: config.CACHE.TIMEOUT_MS });
+
+  // iterates the keys of the prefix with SCAN, stops when `onKeys` returns false
+  const scanKeys = async (prefix: string, onKeys: (keys: string[]) => Promise<boolean | void>) => {
+    let cursor = "0";
+    do {
+      const [nextCursor, keys] = await client.command(["SCAN", cursor, "MATCH", `${escapeGlob(prefix)}*`, "COUNT", 100]);
+      if (keys.length > 0 && (await onKeys(keys)) === false) return;
+      cursor = nextCursor;
+    } while (cursor !== "0");
+  };
+
+  return {
+    shared: true,
+    async connect() {
+      await client.connect();
+      await client.command(["PING"]);
+    },
+    async close() {
+      await client.close();
+    },
+    async get(key) {
+      const value = await client.command(["GET", key]);
+      return value === null ? undefined : deserializeValue(value);
+    },
+    async set(key, data, ttl = config.DEFAULT_CACHE_TIME) {
+      const value = serializeValue(data);
+      if (ttl > 0) await client.command(["SET", key, value, "EX", Math.ceil(ttl)]);
+      else await client.command(["SET", key, value]);
+    },
+    async del(key) {
+      await client.command(["DEL", key]);
+    },
+    async has(key) {
+      return (await client.command(["EXISTS", key])) === 1;
+    },
+    async ttl(key) {
+      const ttl = await client.command(["TTL", key]);
+      return ttl < 0 ? -1 : ttl;
+    },
+    async delByPrefix(prefix) {
+      let deleted = 0;
+      await scanKeys(prefix, async (keys) => {
+        deleted += await client.command(["DEL", ...keys]);
+      });
+      return deleted;
+    },
+    async keys(prefix, limit) {
+      const found = new Set<string>();
+      await scanKeys(prefix, async (keys) => {
+        keys.forEach((key) => found.add(key));
+        return found.size < limit;
+      });
+      return [...found].slice(0, limit);
+    },
+    async stats() {
+      // stats of the whole server, other applications sharing it are included
+      const info: string = await client.command(["INFO", "stats"]);
+      const readStat = (name: string) => Number(info.match(new RegExp(`^${name}:(\\d+)`, "m"))?.[1] ?? 0);
+      return { keys: await client.command(["DBSIZE"]), expired: readStat("expired_keys"), evicted: readStat("evicted_keys") };
+    },
+  };
+};
+
+const storeFactories: Record<string, () => CacheStore> = {
+  memory: createMemoryCacheStore,
+  redis: createRedisCacheStore,
+};
+
+/** Register a cache store (e.g. memcached) under a name */
+export function registerCacheStore(name: string, factory: () => CacheStore) {
+  storeFactories[name] = factory;
+}
+
+/** Creates the store configured through `config.CACHE.DRIVER` */
+export function createCacheStore(): CacheStore {
+  const factory = storeFactories[config.CACHE.DRIVER];
+  if (!factory) {
+    throw new Error(`Cache store '${config.CACHE.DRIVER}' is not registered`);
+  }
+  return factory();
+}
@@ -1,26 +1,120 @@
 /*
-    File contains Node-Cache utility functions (Simplified TypeScript version)
+    File contains cache utility functions.
+
+    Data is kept in the CacheStore selected through `config.CACHE.DRIVER` (see cacheStores).
+    With `config.CACHE.PUBSUB_ENABLED` every delete is published on `config.CACHE.INVALIDATION_CHANNEL`,
+    so instances with a process-local store drop their copy of keys like `rbac:policies` as well.
+    Sets are local, unless published explicitly (setCacheData `publish`) for data every instance must
+    see, like the access token denylist. More than one instance therefore needs the redis store or pub/sub.
+
+    readThroughCache() is the read-through layer used for entity queries (see sqlUtils).
 */
 
-import NodeCache from "node-cache";
+import { randomUUID } from "crypto";
+import { config } from "../../config/config";
 import { getLogger } from "../logger";
+import { CacheStore, createCacheStore } from "./cacheStores";
+import { RespClient } from "./respClient";
 
 const logger = getLogger();
 
-const localCache = new NodeCache({ stdTTL: 3600 });
+// identifies this instance, so it skips its own invalidation messages
+const INSTANCE_ID = randomUUID();
+
+interface CacheInvalidationMessage {
+  origin: string;
+  key?: string;
+  prefix?: string;
+  // a set the other instances apply too
+  set?: { key: string; data: unknown; ttl?: number };
+}
+
+let cacheStore: CacheStore | null = null;
+
+// counters of this instance since startup
+const cacheCounters = { hits: 0, misses: 0, sets: 0, deletes: 0, remoteInvalidations: 0 };
+
+// loads running per key, concurrent misses of a key share one load (single-flight)
+const inFlightLoads = new Map<string, Promise<unknown>>();
+// bumped on every delete, so loads which overlap a delete do not cache stale data
+let invalidationCount = 0;
+
+const markInvalidated = () => {
+  invalidationCount += 1;
+  inFlightLoads.clear();
+};
+let publisher: RespClient | null = null;
+let subscriber: RespClient | null = null;
+
+const getCacheStore = () => (cacheStore ??= createCacheStore());
+
+/** Publishes a delete or set to the other instances. Failures are logged only, the local change already happened. */
+async function publishInvalidation(message: Omit<CacheInvalidationMessage, "origin">) {
+  if (!config.CACHE.PUBSUB_ENABLED) return;
+
+  try {
+    publisher ??= new RespClient(config.CACHE.REDIS_URL, { timeout: config.CACHE.TIMEOUT_MS });
+    await publisher.command(["PUBLISH", config.CACHE.INVALIDATION_CHANNEL, JSON.stringify({ origin: INSTANCE_ID, ...message })]);
+  } catch (err: any) {
+    logger.error("ERROR ON PUBLISHING CACHE INVALIDATION", err);
+  }
+}
+
+/** Applies a delete or set published by another instance */
+async function handleInvalidationMessage(payload: string) {
+  try {
+    const message = JSON.parse(payload) as CacheInvalidationMessage;
+    if (message.origin === INSTANCE_ID || getCacheStore().shared) return;
+
+    markInvalidated();
+    cacheCounters.remoteInvalidations += 1;
+
+    if (message.set) {
+      logger.info(`REMOTE CACHE SET FOR KEY = ${message.set.key}`);
+      await getCacheStore().set(message.set.key, message.set.data, message.set.ttl);
+    } else if (message.key) {
+      logger.info(`REMOTE CACHE INVALIDATION FOR KEY = ${message.key}`);
+      await getCacheStore().del(message.key);
+    } else if (message.prefix) {
+      logger.info(`REMOTE CACHE INVALIDATION FOR KEYS WITH PREFIX = ${message.prefix}`);
+      await getCacheStore().delByPrefix(message.prefix);
+    }
+  } catch (err: any) {
+    logger.error("ERROR ON HANDLING CACHE INVALIDATION", err);
+  }
+}
+
+/** Connects the cache store and subscribes to the invalidation channel. Call once on startup. */
+export async function connectCache() {
+  try {
+    await getCacheStore().connect?.();
+    logger.info(`Cache store '${config.CACHE.DRIVER}' connected successfully!`);
+
+    if (config.CACHE.PUBSUB_ENABLED && !subscriber) {
+      subscriber = new RespClient(config.CACHE.REDIS_URL, { timeout: config.CACHE.TIMEOUT_MS });
+      await subscriber.subscribe(config.CACHE.INVALIDATION_CHANNEL, handleInvalidationMessage);
+      logger.info(`Subscribed to cache invalidation channel '${config.CACHE.INVALIDATION_CHANNEL}'.`);
+    }
+  } catch (err: any) {
+    logger.error("ERROR IN CONNECTING CACHE", err);
+    throw err;
+  }
+}
 
-/** Get cached data by key */
-export async function getCacheData(key: string) {
+/** Get cached data by key. Returns undefined on a miss (a cached null is a hit). */
+export async function getCacheData<T = unknown>(key: string): Promise<T | undefined> {
   try {
     logger.info(`GETTING CACHE DATA FOR KEY: ${key}`);
 
-    const cachedData = localCache.get(key);
+    const cachedData = await getCacheStore().get(key);
     if (cachedData !== undefined) {
-      logger.info("Cached Data FOUND (NodeCache)");
-      return cachedData;
+      logger.info(`Cached Data FOUND (${config.CACHE.DRIVER})`);
+      cacheCounters.hits += 1;
+      return cachedData as T;
     } else {
-      logger.info("Cached Data NOT FOUND (NodeCache)");
-      return false;
+      logger.info(`Cached Data NOT FOUND (${config.CACHE.DRIVER})`);
+      cacheCounters.misses += 1;
+      return undefined;
     }
   } catch (err: any) {
     logger.error("ERROR ON GETTING CACHE DATA", err);
@@ -28,33 +122,40 @@ export async function getCacheData(key: string) {
   }
 }
 
-/** Set data in cache with expiry (seconds) */
-export async function setCacheData(key: string, data: any, cacheLimit?: number) {
+/** Set data in cache with expiry (seconds). `publish` → instances with a process-local store set it too. */
+export async function setCacheData(key: string, data: any, cacheLimit?: number, publish: boolean = false) {
   try {
     logger.info(`SETTING CACHE DATA FOR KEY: ${key}`);
-    localCache.set(key, data, cacheLimit);
+    await getCacheStore().set(key, data, cacheLimit);
+    cacheCounters.sets += 1;
   } catch (err: any) {
     logger.error("ERROR ON CACHING DATA", err);
     throw err;
   }
+
+  if (publish) await publishInvalidation({ set: { key, data, ttl: cacheLimit } });
 }
 
 /** Delete a specific key from cache */
 export async function deleteCacheData(key: string) {
   try {
     logger.info(`DELETING CACHE DATA FOR KEY = ${key}`);
-    localCache.del(key);
+    markInvalidated();
+    await getCacheStore().del(key);
+    cacheCounters.deletes += 1;
   } catch (err: any) {
     logger.error("ERROR ON DELETING CACHE KEY", err);
     throw err;
   }
+
+  await publishInvalidation({ key });
 }
 
 /** Check if key exists */
 export async function checkCacheDataExist(key: string) {
   try {
     logger.info(`CHECKING IF CACHE KEY EXISTS = ${key}`);
-    return localCache.has(key);
+    return await getCacheStore().has(key);
   } catch (err: any) {
     logger.error("ERROR ON CHECKING CACHE KEY EXISTENCE", err);
     throw err;
@@ -65,10 +166,7 @@ export async function checkCacheDataExist(key: string) {
 export async function getExpiryTimeInSec(key: string) {
   try {
     logger.info(`GETTING EXPIRY TIME FOR KEY = ${key}`);
-
-    const ttl = localCache.getTtl(key);
-    if (!ttl) return -1;
-    return Math.floor((ttl - Date.now()) / 1000);
+    return await getCacheStore().ttl(key);
   } catch (err: any) {
     logger.error("ERROR ON GETTING TTL", err);
     throw err;
@@ -79,12 +177,95 @@ export async function getExpiryTimeInSec(key: string) {
 export async function deleteCacheKeys(prefix: string) {
   try {
     logger.info(`DELETING CACHE DATA FOR KEYS WITH PREFIX = ${prefix}`);
+    markInvalidated();
 
-    const keys = localCache.keys().filter((k) => k.startsWith(prefix));
-    keys.forEach((k) => localCache.del(k));
-    logger.info(`DELETED ${keys.length} KEYS HAVING PREFIX ${prefix} (NodeCache)`);
+    const deleted = await getCacheStore().delByPrefix(prefix);
+    cacheCounters.deletes += deleted;
+    logger.info(`DELETED ${deleted} KEYS HAVING PREFIX ${prefix} (${config.CACHE.DRIVER})`);
   } catch (err: any) {
     logger.error("ERROR ON DELETING KEYS BY PREFIX", err);
     throw err;
   }
-}
\ No newline at end of file
+
+  await publishInvalidation({ prefix });
+}
+
+/** List keys having the prefix with their remaining ttl (seconds, -1 → no expiry) */
+export async function listCacheKeys(prefix: string = "", limit: number = 100) {
+  try {
+    logger.info(`LISTING CACHE KEYS WITH PREFIX = ${prefix}`);
+
+    const keys = await getCacheStore().keys(prefix, limit);
+    return await Promise.all(keys.map(async (key) => ({ key, ttl: await getCacheStore().ttl(key) })));
+  } catch (err: any) {
+    logger.error("ERROR ON LISTING CACHE KEYS", err);
+    throw err;
+  }
+}
+
+/** Get the counters of this instance together with the store stats */
+export async function getCacheStats() {
+  try {
+    const storeStats = await getCacheStore().stats();
+    const lookups = cacheCounters.hits + cacheCounters.misses;
+
+    return {
+      driver: config.CACHE.DRIVER,
+      ...storeStats,
+      ...cacheCounters,
+      hitRate: lookups > 0 ? Number((cacheCounters.hits / lookups).toFixed(4)) : 0,
+    };
+  } catch (err: any) {
+    logger.error("ERROR ON GETTING CACHE STATS", err);
+    throw err;
+  }
+}
+
+/**
+ * Returns the cached data of the key, or loads, caches and returns it.
+ *  - concurrent misses of the same key share one load (single-flight)
+ *  - null / undefined results are cached as null for `negativeTtl` seconds
+ *  - cache failures are logged and fall back to the loader
+ */
+export async function readThroughCache<T>(
+  key: string,
+  loader: () => Promise<T>,
+  ttl: number = config.DEFAULT_CACHE_TIME,
+  negativeTtl: number = config.NEGATIVE_CACHE_TIME
+): Promise<T> {
+  try {
+    const cachedData = await getCacheData<T>(key);
+    if (cachedData !== undefined) return cachedData;
+  } catch (err: any) {
+    logger.error(`ERROR ON READING CACHE, LOADING KEY ${key} FROM SOURCE`, err);
+  }
+
+  const runningLoad = inFlightLoads.get(key);
+  if (runningLoad) {
+    logger.info(`JOINING RUNNING LOAD FOR KEY: ${key}`);
+    return runningLoad as Promise<T>;
+  }
+
+  const startedAt = invalidationCount;
+  const load = (async () => {
+    const data = await loader();
+
+    if (startedAt === invalidationCount) {
+      const isNegative = data === null || data === undefined;
+      try {
+        await setCacheData(key, isNegative ? null : data, isNegative ? negativeTtl : ttl);
+      } catch (err: any) {
+        logger.error(`ERROR ON CACHING LOADED DATA FOR KEY ${key}`, err);
+      }
+    }
+
+    return data;
+  })();
+
+  inFlightLoads.set(key, load);
+  try {
+    return await load;
+  } finally {
+    if (inFlightLoads.get(key) === load) inFlightLoads.delete(key);
+  }
+}
@@ -0,0 +1,236 @@
+/*
+    File contains a minimal client for the Redis serialization protocol (RESP2).
+
+    Works with redis-server and compatible servers (valkey, keydb, dragonfly).
+    Supports plain commands and pub/sub. A client in subscribe mode only receives messages,
+    so the cache uses a separate client for subscribing.
+
+    Url format: redis://[:password@]host[:port][/db]
+
+    With a timeout, a connect or command without reply fails after `timeout` ms. Replies arrive in order,
+    so a stalled reply blocks every later one: the connection is dropped and reopened by the next command.
+*/
+
+import net from "net";
+import { getLogger } from "../logger";
+
+const logger = getLogger();
+
+const RECONNECT_DELAY_MS = 1000;
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export interface RespClientOptions {
+  // ms until a connect or command fails, 0 → no timeout
+  timeout?: number;
+}
+
+/**
+ * Parses one reply starting at `offset`. Returns null when the buffer does not hold a full reply yet.
+ */
+export const parseReply = (buffer: Buffer, offset: number): { value: RespValue; offset: number } | null => {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new Error(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+
+      const items: RespValue[] = [];
+      let itemOffset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, itemOffset);
+        if (!item) return null;
+        items.push(item.value);
+        itemOffset = item.offset;
+      }
+      return { value: items, offset: itemOffset };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type '${type}'`);
+  }
+};
+
+export const encodeCommand = (args: (string | number)[]) => {
+  let command = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    command += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return command;
+};
+
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<void> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private subscriptions = new Map<string, (message: string) => void>();
+  private isClosed = false;
+
+  constructor(private readonly url: string, private readonly options: RespClientOptions = {}) {}
+
+  /** Connects (once) and authenticates / selects the db from the url */
+  async connect(): Promise<void> {
+    if (this.socket) return;
+    if (this.connecting) return this.connecting;
+
+    this.isClosed = false;
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const { hostname, port, password, pathname } = new URL(this.url);
+      const socket = net.createConnection({ host: hostname || "127.0.0.1", port: Number(port) || 6379 });
+
+      const timeout = this.options.timeout ?? 0;
+      const connectTimer = timeout > 0
+        ? setTimeout(() => socket.destroy(new Error(`RESP connect timed out after ${timeout}ms`)), timeout)
+        : null;
+
+      socket.once("connect", async () => {
+        if (connectTimer) clearTimeout(connectTimer);
+        this.socket = socket;
+        this.connecting = null;
+        try {
+          if (password) await this.command(["AUTH", decodeURIComponent(password)]);
+          const db = Number(pathname?.slice(1));
+          if (db) await this.command(["SELECT", db]);
+          for (const channel of this.subscriptions.keys()) this.write(["SUBSCRIBE", channel]);
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on("data", (chunk) => this.handleData(chunk));
+
+      socket.on("error", (error) => {
+        if (connectTimer) clearTimeout(connectTimer);
+        logger.error(`RESP CONNECTION ERROR (${hostname}:${port || 6379})`, error);
+        if (this.connecting) {
+          this.connecting = null;
+          reject(error);
+        }
+      });
+
+      socket.once("close", () => this.handleClose());
+    });
+
+    return this.connecting;
+  }
+
+  /** Sends a command and resolves with its reply */
+  async command(args: (string | number)[]): Promise<any> {
+    if (!this.socket) await this.connect();
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingReply = { resolve, reject };
+      const timeout = this.options.timeout ?? 0;
+
+      if (timeout > 0) {
+        pending.timer = setTimeout(() => {
+          this.pending = this.pending.filter((item) => item !== pending);
+          reject(new Error(`RESP command ${args[0]} timed out after ${timeout}ms`));
+          this.socket?.destroy();
+        }, timeout);
+      }
+
+      this.pending.push(pending);
+      this.write(args);
+    });
+  }
+
+  /** Subscribes to a channel. Use a dedicated client: it can not run other commands afterwards. */
+  async subscribe(channel: string, listener: (message: string) => void) {
+    this.subscriptions.set(channel, listener);
+    if (!this.socket) await this.connect();
+    else this.write(["SUBSCRIBE", channel]);
+  }
+
+  async close() {
+    this.isClosed = true;
+    this.subscriptions.clear();
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private write(args: (string | number)[]) {
+    this.socket.write(encodeCommand(args));
+  }
+
+  private handleData(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply.offset;
+      this.handleReply(reply.value);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private handleReply(value: RespValue) {
+    // pub/sub pushes: ["message", channel, payload] / ["subscribe", channel, count]
+    if (this.subscriptions.size > 0 && Array.isArray(value)) {
+      const [kind, channel, payload] = value as string[];
+      if (kind === "message") {
+        try {
+          this.subscriptions.get(channel)?.(payload);
+        } catch (error) {
+          logger.error(`ERROR IN RESP SUBSCRIPTION LISTENER (${channel})`, error);
+        }
+        return;
+      }
+      if (kind === "subscribe") return;
+    }
+
+    const pending = this.pending.shift();
+    if (!pending) return;
+    clearTimeout(pending.timer);
+
+    if (value instanceof Error) pending.reject(value);
+    else pending.resolve(value);
+  }
+
+  private handleClose() {
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending.splice(0);
+    for (const reply of pending) {
+      clearTimeout(reply.timer);
+      reply.reject(new Error("RESP connection closed"));
+    }
+
+    // subscribers have to reconnect by themselves, commands reconnect lazily
+    if (!this.isClosed && this.subscriptions.size > 0) {
+      setTimeout(() => {
+        this.connect().catch((error) => logger.error("RESP RECONNECT FAILED", error));
+      }, RECONNECT_DELAY_MS).unref();
+    }
+  }
+}
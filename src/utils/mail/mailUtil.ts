@@ -0,0 +1,67 @@
+/*
+    File contains the pluggable mail delivery used by the application.
+
+    Transports are registered by name and selected through `config.MAIL.TRANSPORT`.
+    Built-in transports:
+        - console : logs the mail (default, local development)
+        - file    : writes every mail as a json file in `config.MAIL.FILE_DIR`
+*/
+
+import fs from "fs/promises";
+import path from "path";
+import { config } from "../../config/config";
+import { getLogger } from "../logger";
+
+const logger = getLogger();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const consoleTransport: MailTransport = {
+  async send(message) {
+    logger.info(`MAIL TO: ${message.to} | SUBJECT: ${message.subject}\n${message.text}`);
+  },
+};
+
+const fileTransport: MailTransport = {
+  async send(message) {
+    await fs.mkdir(config.MAIL.FILE_DIR, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await fs.writeFile(path.join(config.MAIL.FILE_DIR, fileName), JSON.stringify(message, null, 2));
+    logger.info(`MAIL WRITTEN TO FILE: ${fileName}`);
+  },
+};
+
+const transports: Record<string, MailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+/** Register a mail transport (e.g. smtp, ses) under a name */
+export function registerMailTransport(name: string, transport: MailTransport) {
+  transports[name] = transport;
+}
+
+/** Send a mail through the configured transport */
+export async function sendMail(message: MailMessage) {
+  try {
+    const transport = transports[config.MAIL.TRANSPORT];
+    if (!transport) {
+      throw new Error(`Mail transport '${config.MAIL.TRANSPORT}' is not registered`);
+    }
+
+    logger.info(`SENDING MAIL TO: ${message.to} USING TRANSPORT: ${config.MAIL.TRANSPORT}`);
+    await transport.send({ ...message, from: config.MAIL.FROM });
+  } catch (err: any) {
+    logger.error("ERROR ON SENDING MAIL", err);
+    throw err;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Policy Condition Utility Module (ABAC)
+ * --------------------------------------
+ * Evaluates the optional JSON condition of a policy against the request context:
+ *  - subject     : the user (userId, roles, ...)
+ *  - resource    : attributes of the accessed resource (e.g. ownerId)
+ *  - environment : request environment (now, ip, method)
+ *
+ * A condition is a JSON expression with exactly one operator per node:
+ *  - { "and": [c1, c2, ...] }, { "or": [c1, c2, ...] }, { "not": c }
+ *  - { "eq" | "ne" | "gt" | "gte" | "lt" | "lte": [a, b] }
+ *  - { "in": [value, list] }, { "contains": [listOrString, value] }
+ *  - { "exists": a }
+ * Operands are literals or context references: { "var": "resource.ownerId" }.
+ *
+ * e.g. "owners only, during the enrollment window":
+ *  { "and": [
+ *      { "eq": [{ "var": "resource.ownerId" }, { "var": "subject.userId" }] },
+ *      { "gte": [{ "var": "environment.now" }, { "var": "resource.enrollmentStart" }] },
+ *      { "lte": [{ "var": "environment.now" }, { "var": "resource.enrollmentEnd" }] }
+ *  ] }
+ *
+ * Expressions are interpreted, never compiled or passed to eval. Anything not comparable
+ * evaluates to false. A malformed condition evaluates to `onError`: false for allow policies,
+ * so it never grants access, true for deny policies, so it never lifts a deny.
+ */
+
+import { FastifyRequest } from "fastify";
+import { getLogger } from "./logger";
+
+const logger = getLogger();
+
+export type PolicyCondition = { [operator: string]: unknown };
+
+export interface PolicyConditionContext {
+  subject?: Record<string, unknown>;
+  resource?: Record<string, unknown>;
+  environment?: Record<string, unknown>;
+}
+
+const LOGICAL_OPERATORS = ["and", "or"];
+const COMPARISON_OPERATORS = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "contains"];
+
+const MAX_CONDITION_DEPTH = 10;
+
+// "subject.userId", "resource.owner.id"; prototype members can not be referenced
+const VAR_PATH_PATTERN = /^(subject|resource|environment)(\.[A-Za-z0-9_]+)*$/;
+const FORBIDDEN_PATH_SEGMENTS = ["__proto__", "prototype", "constructor"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const isVarReference = (value: unknown): value is { var: string } => {
+  return isPlainObject(value) && Object.keys(value).length === 1 && typeof value.var === "string";
+};
+
+const validateOperand = (operand: unknown, path: string, errors: string[]) => {
+  if (isVarReference(operand)) {
+    const segments = operand.var.split(".");
+    if (!VAR_PATH_PATTERN.test(operand.var) || segments.some((segment) => FORBIDDEN_PATH_SEGMENTS.includes(segment))) {
+      errors.push(`${path}: '${operand.var}' is not a valid reference.`);
+    }
+    return;
+  }
+
+  if (Array.isArray(operand)) {
+    operand.forEach((item, index) => validateOperand(item, `${path}[${index}]`, errors));
+    return;
+  }
+
+  if (operand !== null && !["string", "number", "boolean"].includes(typeof operand)) {
+    errors.push(`${path}: operands must be literals or { var } references.`);
+  }
+};
+
+const validateNode = (node: unknown, path: string, depth: number, errors: string[]) => {
+  if (depth > MAX_CONDITION_DEPTH) {
+    errors.push(`${path}: condition is nested deeper than ${MAX_CONDITION_DEPTH} levels.`);
+    return;
+  }
+
+  if (!isPlainObject(node) || Object.keys(node).length !== 1) {
+    errors.push(`${path}: every condition must be an object with exactly one operator.`);
+    return;
+  }
+
+  const [operator, args] = Object.entries(node)[0];
+  const operatorPath = `${path}.${operator}`;
+
+  if (LOGICAL_OPERATORS.includes(operator)) {
+    if (!Array.isArray(args) || args.length === 0) {
+      errors.push(`${operatorPath}: expects a non-empty array of conditions.`);
+      return;
+    }
+    args.forEach((child, index) => validateNode(child, `${operatorPath}[${index}]`, depth + 1, errors));
+  } else if (operator === "not") {
+    validateNode(args, operatorPath, depth + 1, errors);
+  } else if (COMPARISON_OPERATORS.includes(operator)) {
+    if (!Array.isArray(args) || args.length !== 2) {
+      errors.push(`${operatorPath}: expects an array of two operands.`);
+      return;
+    }
+    args.forEach((operand, index) => validateOperand(operand, `${operatorPath}[${index}]`, errors));
+  } else if (operator === "exists") {
+    validateOperand(args, operatorPath, errors);
+  } else {
+    errors.push(`${path}: unknown operator '${operator}'.`);
+  }
+};
+
+/**
+ * Environment attributes of a request for policy conditions
+ */
+export const getRequestEnvironment = (request: FastifyRequest): Record<string, unknown> => {
+  return { now: new Date().toISOString(), ip: request.ip, method: request.method };
+};
+
+/**
+ * Validates a condition before it is stored. Returns the list of errors (empty when valid).
+ */
+export const validatePolicyCondition = (condition: unknown): string[] => {
+  const errors: string[] = [];
+  validateNode(condition, "condition", 0, errors);
+  return errors;
+};
+
+/**
+ * Resolves a { var } reference in the context, dates are compared as ISO strings
+ */
+const resolveVar = (path: string, context: PolicyConditionContext): unknown => {
+  const segments = path.split(".");
+  if (segments.some((segment) => FORBIDDEN_PATH_SEGMENTS.includes(segment))) return undefined;
+
+  let value: unknown = context;
+  for (const segment of segments) {
+    if (!isPlainObject(value) || !Object.prototype.hasOwnProperty.call(value, segment)) return undefined;
+    value = value[segment];
+  }
+
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+const resolveOperand = (operand: unknown, context: PolicyConditionContext): unknown => {
+  if (isVarReference(operand)) return resolveVar(operand.var, context);
+  if (Array.isArray(operand)) return operand.map((item) => resolveOperand(item, context));
+  return operand;
+};
+
+// only numbers with numbers and strings with strings are ordered
+const isOrderable = (left: unknown, right: unknown) => {
+  return (typeof left === "number" && typeof right === "number") || (typeof left === "string" && typeof right === "string");
+};
+
+const compare = (operator: string, left: any, right: any): boolean => {
+  switch (operator) {
+    case "eq":
+      return left !== undefined && left === right;
+    case "ne":
+      return left !== undefined && right !== undefined && left !== right;
+    case "gt":
+      return isOrderable(left, right) && left > right;
+    case "gte":
+      return isOrderable(left, right) && left >= right;
+    case "lt":
+      return isOrderable(left, right) && left < right;
+    case "lte":
+      return isOrderable(left, right) && left <= right;
+    case "in":
+      return Array.isArray(right) && left !== undefined && right.includes(left);
+    case "contains":
+      if (Array.isArray(left)) return right !== undefined && left.includes(right);
+      return typeof left === "string" && typeof right === "string" && left.includes(right);
+    default:
+      return false;
+  }
+};
+
+const evaluateNode = (node: unknown, context: PolicyConditionContext, depth: number): boolean => {
+  if (depth > MAX_CONDITION_DEPTH || !isPlainObject(node) || Object.keys(node).length !== 1) return false;
+
+  const [operator, args] = Object.entries(node)[0];
+
+  switch (operator) {
+    case "and":
+      return Array.isArray(args) && args.length > 0 && args.every((child) => evaluateNode(child, context, depth + 1));
+    case "or":
+      return Array.isArray(args) && args.some((child) => evaluateNode(child, context, depth + 1));
+    case "not":
+      return !evaluateNode(args, context, depth + 1);
+    case "exists": {
+      const value = resolveOperand(args, context);
+      return value !== undefined && value !== null;
+    }
+    default:
+      if (!COMPARISON_OPERATORS.includes(operator) || !Array.isArray(args) || args.length !== 2) return false;
+      return compare(operator, resolveOperand(args[0], context), resolveOperand(args[1], context));
+  }
+};
+
+/**
+ * Evaluates the condition against the context. Malformed conditions and evaluation errors return `onError`.
+ */
+export const evaluatePolicyCondition = (
+  condition: PolicyCondition,
+  context: PolicyConditionContext = {},
+  onError: boolean = false
+): boolean => {
+  try {
+    // checked up front, otherwise a malformed node below a "not" would grant access
+    const errors = validatePolicyCondition(condition);
+    if (errors.length > 0) {
+      logger.info(`Policy condition is malformed, evaluating to ${onError}: ${errors.join(" ")}`);
+      return onError;
+    }
+
+    return evaluateNode(condition, context, 0);
+  } catch (err) {
+    logger.error("Error in evaluatePolicyCondition:", err);
+    return onError;
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * RBAC Expiry Sweeper
+ * -------------------
+ * Soft deletes the policies and role assignments (UserRoleMap) whose validity period
+ * has ended, and invalidates the RBAC policy map afterwards.
+ *
+ * The sweeper runs in-process every `config.RBAC_EXPIRY_SWEEP_INTERVAL` seconds.
+ * Authorization does not depend on it: expired grants are already ignored by
+ * the decision path (see rbacUtil), the sweeper only makes the expiry permanent.
+ */
+
+import { LessThanOrEqual, UpdateResult } from "typeorm";
+import { config } from "../config/config";
+import { Policy } from "../entities/Policy";
+import { UserRoleMap } from "../entities/UserRoleMap";
+import { getLogger } from "./logger";
+import { invalidateRBACPolicyMap } from "./rbacUtil";
+import { updateRecords } from "./sql/sqlUtils";
+
+const logger = getLogger();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let isSweeping = false;
+
+/**
+ * Soft deletes the expired policies and role assignments.
+ * Returns the number of soft deleted records per entity.
+ */
+export const sweepExpiredGrants = async () => {
+  const now = new Date();
+  const expired = { validUntil: LessThanOrEqual(now), isDeleted: 0 };
+
+  const policies = (await updateRecords(Policy, expired, { isDeleted: 1, updatedAt: now })) as UpdateResult;
+  const userRoleMaps = (await updateRecords(UserRoleMap, expired, { isDeleted: 1, updatedAt: now })) as UpdateResult;
+
+  const result = { policies: policies.affected ?? 0, userRoleMaps: userRoleMaps.affected ?? 0 };
+
+  if (result.policies > 0 || result.userRoleMaps > 0) {
+    logger.info(`RBAC expiry sweep: ${result.policies} policies and ${result.userRoleMaps} role assignments expired.`);
+    await invalidateRBACPolicyMap();
+  }
+
+  return result;
+};
+
+/**
+ * Starts the periodic sweep. Call once on startup, after the database is connected.
+ */
+export const startRBACExpirySweeper = () => {
+  if (sweepTimer || config.RBAC_EXPIRY_SWEEP_INTERVAL <= 0) return;
+
+  const runSweep = async () => {
+    // a slow sweep is not overlapped by the next one
+    if (isSweeping) return;
+    isSweeping = true;
+
+    try {
+      await sweepExpiredGrants();
+    } catch (err) {
+      logger.error("Error in RBAC expiry sweep:", err);
+    } finally {
+      isSweeping = false;
+    }
+  };
+
+  sweepTimer = setInterval(runSweep, config.RBAC_EXPIRY_SWEEP_INTERVAL * 1000);
+  sweepTimer.unref();
+
+  logger.info(`RBAC expiry sweeper started (every ${config.RBAC_EXPIRY_SWEEP_INTERVAL}s).`);
+  void runSweep();
+};
+
+/**
+ * Stops the periodic sweep
+ */
+export const stopRBACExpirySweeper = () => {
+  if (!sweepTimer) return;
+
+  clearInterval(sweepTimer);
+  sweepTimer = null;
+};
@@ -0,0 +1,156 @@
+/**
+ * RBAC Preview Utility Module
+ * ---------------------------
+ * Dry run support for the policy, role, resource and scope mutations.
+ *
+ * The change is executed inside a transaction which is always rolled back.
+ * The effective RBAC map is built before and after the change, and the diff
+ * lists the (role, resource, permission, scope, effect) grants which would appear or
+ * disappear (inherited grants included) together with the number of users affected through UserRoleMap.
+ * The maps are those of the request's organization (tenant), which includes the global records.
+ */
+
+import { FastifyRequest } from "fastify";
+import { EntityManager, QueryRunner } from "typeorm";
+import { Policy } from "../entities/Policy";
+import { Role } from "../entities/Role";
+import { UserRoleMap } from "../entities/UserRoleMap";
+import { getLogger } from "./logger";
+import { buildRBACMap, buildRoleHierarchy, EFFECTIVE_POLICY_FILTER, getRBACGrantKeys, PolicyEffect, PolicyType, RBACMap } from "./rbacUtil";
+import { createQueryRunner } from "./sql/sqlUtils";
+import { getTenantScopeWhere } from "./tenantUtil";
+
+const logger = getLogger();
+
+export interface RBACGrant {
+  role: string;
+  resource: string;
+  permission: string;
+  scope: string;
+  effect: PolicyEffect;
+}
+
+export interface RBACDiff {
+  dryRun: true;
+  added: RBACGrant[];
+  removed: RBACGrant[];
+  affectedUsers: {
+    total: number;
+    byRole: Record<string, number>;
+  };
+}
+
+interface EffectivePolicies {
+  policiesMap: RBACMap;
+  roleIds: Map<string, string>; // role name → role id
+}
+
+/**
+ * Checks whether the mutation was requested as a dry run (`?dryRun=true`)
+ */
+export const isDryRunRequest = (request: FastifyRequest): boolean => {
+  return (request.query as { dryRun?: string })?.dryRun === "true";
+};
+
+/**
+ * Loads the policies of the tenant which are currently effective (nothing soft deleted) and builds their map
+ */
+const loadEffectivePolicies = async (manager: EntityManager, tenant: string | null): Promise<EffectivePolicies> => {
+  const policies = await manager.find(Policy, {
+    where: { ...EFFECTIVE_POLICY_FILTER, ...getTenantScopeWhere(tenant) },
+    relations: { role: true, permission: true, resource: true, scope: true },
+  });
+
+  const roles = await manager.find(Role, {
+    where: { isDeleted: false, ...getTenantScopeWhere(tenant) },
+    relations: { parent: true },
+  });
+
+  // all active roles, roles inheriting all their grants have no policy of their own
+  const roleIds = new Map<string, string>();
+  for (const role of roles) {
+    roleIds.set(role.name.toUpperCase(), role.id);
+  }
+
+  return { policiesMap: await buildRBACMap(policies as PolicyType[], buildRoleHierarchy(roles)), roleIds };
+};
+
+const toGrant = (key: string): RBACGrant => {
+  const [role, resource, permission, scope, effect] = key.split("|");
+  return { role, resource, permission, scope, effect: effect as PolicyEffect };
+};
+
+/**
+ * Counts the users holding the given roles through the UserRoleMap assignments of the tenant (global ones included)
+ */
+const countAffectedUsers = async (manager: EntityManager, roleIds: Map<string, string>, tenant: string | null) => {
+  const byRole: Record<string, number> = {};
+  if (roleIds.size === 0) return { total: 0, byRole };
+
+  const ids = [...roleIds.values()];
+  const tenantFilter = tenant
+    ? "(userRoleMap.organizationId = :tenant OR userRoleMap.organizationId IS NULL)"
+    : "userRoleMap.organizationId IS NULL";
+  const namesById = new Map([...roleIds.entries()].map(([name, id]) => [id, name]));
+
+  const rows = await manager
+    .createQueryBuilder(UserRoleMap, "userRoleMap")
+    .select("userRoleMap.roleId", "roleId")
+    .addSelect("COUNT(DISTINCT userRoleMap.userId)", "users")
+    .where("userRoleMap.roleId IN (:...ids)", { ids })
+    .andWhere("userRoleMap.isDeleted = 0")
+    .andWhere(tenantFilter, { tenant })
+    .groupBy("userRoleMap.roleId")
+    .getRawMany();
+
+  for (const name of roleIds.keys()) byRole[name] = 0;
+  for (const row of rows) byRole[namesById.get(row.roleId)] = Number(row.users);
+
+  const totalRow = await manager
+    .createQueryBuilder(UserRoleMap, "userRoleMap")
+    .select("COUNT(DISTINCT userRoleMap.userId)", "users")
+    .where("userRoleMap.roleId IN (:...ids)", { ids })
+    .andWhere("userRoleMap.isDeleted = 0")
+    .andWhere(tenantFilter, { tenant })
+    .getRawOne();
+
+  return { total: Number(totalRow?.users ?? 0), byRole };
+};
+
+/**
+ * Runs the change without committing it and returns the effective permission diff inside the tenant
+ */
+export const previewPolicyChange = async (
+  change: (queryRunner: QueryRunner) => Promise<unknown>,
+  tenant: string | null = null
+): Promise<RBACDiff> => {
+  const queryRunner = createQueryRunner();
+
+  try {
+    await queryRunner.startTransaction();
+
+    const before = await loadEffectivePolicies(queryRunner.manager, tenant);
+    await change(queryRunner);
+    const after = await loadEffectivePolicies(queryRunner.manager, tenant);
+
+    const beforeKeys = getRBACGrantKeys(before.policiesMap);
+    const afterKeys = getRBACGrantKeys(after.policiesMap);
+
+    const added = [...afterKeys].filter((key) => !beforeKeys.has(key)).map(toGrant);
+    const removed = [...beforeKeys].filter((key) => !afterKeys.has(key)).map(toGrant);
+
+    // renamed roles keep their id, so the users are counted by role id
+    const affectedRoleIds = new Map<string, string>();
+    for (const grant of added) affectedRoleIds.set(grant.role, after.roleIds.get(grant.role));
+    for (const grant of removed) affectedRoleIds.set(grant.role, before.roleIds.get(grant.role));
+
+    const affectedUsers = await countAffectedUsers(queryRunner.manager, affectedRoleIds, tenant);
+
+    logger.info(`Dry run: ${added.length} grants added, ${removed.length} grants removed, ${affectedUsers.total} users affected.`);
+
+    return { dryRun: true, added, removed, affectedUsers };
+  } finally {
+    if (queryRunner.isTransactionActive) await queryRunner.rollbackTransaction();
+    await queryRunner.release();
+  }
+};
@@ -2,17 +2,55 @@
  * RBAC Utility Module (TypeScript Version)
  * ----------------------------------------
  * Builds and retrieves an in-memory nested RBAC policy map.
+ *
+ * Every leaf carries the policy ID and its effect (allow / deny). Decisions use
+ * deny-overrides per scope: a deny of any of the user's roles wins over the allows of the others
+ * for its own scope, a global deny for every scope.
+ *
+ * Roles form a hierarchy (Role.parent): a role inherits every grant of its ancestors.
+ * The cached map already contains the inherited grants; an inherited deny wins over an
+ * allow of the role itself, otherwise the nearest role in the hierarchy wins.
+ *
+ * Policies and role assignments may be limited to a validity period (validFrom / validUntil).
+ * Grants outside their period are left out of the map, and the map is cached no longer
+ * than until the next period starts or ends, so expired grants are never served.
+ *
+ * Policies may carry an ABAC condition. The conditions are cached next to the map
+ * (policy ID → condition) and evaluated when a matching policy is looked up.
+ *
+ * The map is built per organization (tenant) from the tenant's own and the global records,
+ * so tenants share the global system roles. It is cached per tenant under
+ * `rbac:policies:<tenant>` (`rbac:policies:global` for requests without a tenant).
  */
 
+import { FindOptionsWhere } from "typeorm";
 import { Policy } from "../entities/Policy";
+import { Role as RoleEntity } from "../entities/Role";
+import { UserRoleMap } from "../entities/UserRoleMap";
 import { config } from "../config/config";
-import { getCacheData, setCacheData } from "./cache/cacheUtils";
+import { deleteCacheKeys, getCacheData, setCacheData } from "./cache/cacheUtils";
 import { getLogger } from "./logger";
 import { getAllRecordsWithFilter } from "./sql/sqlUtils";
-import { RBAC_POLICY_MAP_CACHE_KEY } from "./cache/cacheKeys";
+import { RBAC_POLICY_CONDITIONS_CACHE_KEY, RBAC_POLICY_MAP_CACHE_KEY } from "./cache/cacheKeys";
+import { evaluatePolicyCondition, PolicyCondition, PolicyConditionContext } from "./policyConditionUtil";
+import { getTenantCacheSuffix, getTenantScopeWhere, isActiveOrganization } from "./tenantUtil";
+import { findUserById } from "./userUtil";
 
 const logger = getLogger();
 
+// bumped on every invalidation, so that a map built from data which changed meanwhile is not cached
+let rbacMapGeneration = 0;
+
+export const POLICY_EFFECT = {
+  ALLOW: "allow",
+  DENY: "deny",
+} as const;
+
+// scopes covering every record ("all" is an alias of "global"), their denies apply to every scope
+export const GLOBAL_SCOPES = ["GLOBAL", "ALL"];
+
+export type PolicyEffect = typeof POLICY_EFFECT[keyof typeof POLICY_EFFECT];
+
 export interface Role {
   name: string;
 }
@@ -35,6 +73,44 @@ export interface PolicyType {
   permission: Permission;
   resource: Resource;
   scope: Scope;
+  effect?: PolicyEffect;
+  condition?: PolicyCondition | null;
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+}
+
+export interface ValidityPeriod {
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+}
+
+// policy ID → condition, only policies having a condition are listed
+export type PolicyConditionMap = Record<string, PolicyCondition>;
+
+// role name → parent role name (upper case), null for roles without a parent
+export type RoleHierarchy = Record<string, string | null>;
+
+export interface RoleNode {
+  id: string;
+  name: string;
+  parent?: { id: string; name: string; isDeleted: boolean | number } | null;
+}
+
+export interface RoleGrantExplanation {
+  resource: string;
+  permission: string;
+  scope: string;
+  policyId: string;
+  effect: PolicyEffect;
+  grantedBy: string;
+  inherited: boolean;
+  // roles from the explained role up to the role granting the policy
+  path: string[];
+}
+
+export interface RBACMapEntry {
+  policyId: string;
+  effect: PolicyEffect;
 }
 
 export type RBACMap = Record<
@@ -43,20 +119,157 @@ export type RBACMap = Record<
     string, // resource
     Record<
       string, // permission
-      Record<string, string> // scope → policy ID
+      Record<string, RBACMapEntry> // scope → policy
     >
   >
 >;
 
+// a policy is effective only when neither the policy nor any referenced entity is soft deleted
+export const EFFECTIVE_POLICY_FILTER: FindOptionsWhere<Policy> = {
+  isDeleted: false,
+  role: { isDeleted: false },
+  permission: { isDeleted: false },
+  resource: { isDeleted: false },
+  scope: { isDeleted: false },
+};
 
 /**
- * Builds a nested RBAC policy map.
+ * Checks whether the record is inside its validity period (validFrom inclusive, validUntil exclusive)
  */
-export const buildRBACMap = async (policies: PolicyType[]): Promise<RBACMap> => {
+export const isWithinValidity = (record: ValidityPeriod, now: Date = new Date()): boolean => {
+  if (record?.validFrom && new Date(record.validFrom).getTime() > now.getTime()) return false;
+  if (record?.validUntil && new Date(record.validUntil).getTime() <= now.getTime()) return false;
+  return true;
+};
+
+/**
+ * Parses `validFrom` / `validUntil` from a request body.
+ * Missing fields stay undefined, null clears the bound. Returns an error message for invalid dates.
+ */
+export const parseValidityPeriod = (
+  body: ValidityPeriod = {}
+): { validFrom?: Date | null; validUntil?: Date | null; error?: string } => {
+  const parse = (value: Date | string | null | undefined): Date | null | undefined | false => {
+    if (value === undefined || value === null) return value as null | undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? false : date;
+  };
+
+  const validFrom = parse(body?.validFrom);
+  const validUntil = parse(body?.validUntil);
+
+  if (validFrom === false || validUntil === false) {
+    return { error: "validFrom and validUntil must be valid dates." };
+  }
+  if (validFrom && validUntil && validUntil.getTime() <= validFrom.getTime()) {
+    return { error: "validUntil must be after validFrom." };
+  }
+
+  return { validFrom, validUntil };
+};
+
+/**
+ * Returns the next moment (ms) after `now` at which a validity period of the records starts or ends
+ */
+export const getNextValidityChange = (records: ValidityPeriod[], now: Date = new Date()): number | null => {
+  let next: number | null = null;
+
+  for (const record of records) {
+    for (const boundary of [record?.validFrom, record?.validUntil]) {
+      if (!boundary) continue;
+
+      const time = new Date(boundary).getTime();
+      if (time > now.getTime() && (next === null || time < next)) next = time;
+    }
+  }
+
+  return next;
+};
+
+/**
+ * Builds the role hierarchy from active roles. A soft deleted parent breaks the inheritance.
+ */
+export const buildRoleHierarchy = (roles: RoleNode[]): RoleHierarchy => {
+  const hierarchy: RoleHierarchy = {};
+
+  for (const role of roles) {
+    const parent = role.parent && !role.parent.isDeleted ? role.parent.name.toUpperCase() : null;
+    hierarchy[role.name.toUpperCase()] = parent;
+  }
+
+  return hierarchy;
+};
+
+/**
+ * Returns the role followed by its ancestors, nearest first. Stops on a cycle.
+ */
+export const getRoleAncestors = (role: string, hierarchy: RoleHierarchy): string[] => {
+  const ancestors: string[] = [];
+  let current = role?.toUpperCase();
+
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = hierarchy[current];
+  }
+
+  return ancestors;
+};
+
+/**
+ * Resolves the tenant whose records apply. The records of a missing or soft deleted
+ * organization are ignored, only the global records apply.
+ */
+const resolveActiveTenant = async (tenant: string | null): Promise<string | null> => {
+  if (!tenant) return null;
+  if (await isActiveOrganization(tenant)) return tenant;
+
+  logger.info(`Organization ${tenant} is not active. Only global RBAC records apply.`);
+  return null;
+};
+
+/**
+ * Loads the hierarchy of the active roles of the tenant and the global roles
+ */
+export const getRoleHierarchy = async (tenant: string | null = null): Promise<RoleHierarchy> => {
+  const roles = await getAllRecordsWithFilter<RoleNode>(RoleEntity, {
+    where: { isDeleted: 0, ...getTenantScopeWhere(tenant) },
+    relations: { parent: true },
+  });
+  return buildRoleHierarchy(roles);
+};
+
+/**
+ * Checks whether making `parentId` the parent of `roleId` would create a cycle.
+ * Soft deleted roles are included, restoring them must not create a cycle either.
+ */
+export const wouldCreateRoleCycle = async (roleId: string, parentId: string): Promise<boolean> => {
+  const roles = await getAllRecordsWithFilter<RoleNode>(RoleEntity, { relations: { parent: true } });
+  const parentIds = new Map(roles.map((role) => [role.id, role.parent?.id ?? null]));
+
+  const visited = new Set<string>();
+  let current: string | null = parentId;
+
+  while (current && !visited.has(current)) {
+    if (current === roleId) return true;
+    visited.add(current);
+    current = parentIds.get(current) ?? null;
+  }
+
+  return false;
+};
+
+/**
+ * Builds a nested RBAC policy map from the policies inside their validity period.
+ * With a role hierarchy every role also gets the grants of its ancestors.
+ */
+export const buildRBACMap = async (policies: PolicyType[], hierarchy: RoleHierarchy = {}): Promise<RBACMap> => {
   try {
     const policiesMap: RBACMap = {};
+    const now = new Date();
 
     for (const policy of policies) {
+      if (!isWithinValidity(policy, now)) continue;
+
       const role = policy?.role?.name?.toUpperCase();
       const permission = policy?.permission?.name?.toUpperCase();
       const resource = policy?.resource?.name?.toUpperCase();
@@ -69,10 +282,14 @@ export const buildRBACMap = async (policies: PolicyType[]): Promise<RBACMap> =>
       policiesMap[role][resource] ??= {};
       policiesMap[role][resource][permission] ??= {};
 
-      policiesMap[role][resource][permission][scope] = policy.id;
+      // a global and a tenant policy may define the same grant, a deny wins
+      const grants = policiesMap[role][resource][permission];
+      grants[scope] = combineInheritedEntry(grants[scope], { policyId: policy.id, effect: policy.effect ?? POLICY_EFFECT.ALLOW });
     }
 
-    return policiesMap;
+    if (Object.keys(hierarchy).length === 0) return policiesMap;
+
+    return expandInheritedGrants(policiesMap, hierarchy);
   } catch (err) {
     logger.error("Error in buildRBACMap:", err);
     return {};
@@ -80,30 +297,127 @@ export const buildRBACMap = async (policies: PolicyType[]): Promise<RBACMap> =>
 };
 
 /**
- * Retrieves the RBAC policy map from Redis cache if available.
- * Otherwise, fetches policies from the database, builds the map, and caches it.
+ * Picks the entry applying when two policies define the same grant (two roles of a hierarchy,
+ * or a global and a tenant policy): a deny wins, otherwise the current (nearer) entry is kept
+ */
+const combineInheritedEntry = (current: RBACMapEntry | undefined, inherited: RBACMapEntry): RBACMapEntry => {
+  if (!current) return inherited;
+  return current.effect !== POLICY_EFFECT.DENY && inherited.effect === POLICY_EFFECT.DENY ? inherited : current;
+};
+
+/**
+ * Adds the grants of the ancestors to every role of the map
  */
-export const getRBACPolicyMap = async (): Promise<RBACMap> => {
+const expandInheritedGrants = (policiesMap: RBACMap, hierarchy: RoleHierarchy): RBACMap => {
+  const expandedMap: RBACMap = {};
+  const roles = new Set([...Object.keys(policiesMap), ...Object.keys(hierarchy)]);
+
+  for (const role of roles) {
+    for (const ancestor of getRoleAncestors(role, hierarchy)) {
+      for (const [resource, permissions] of Object.entries(policiesMap[ancestor] ?? {})) {
+        for (const [permission, scopes] of Object.entries(permissions)) {
+          for (const [scope, entry] of Object.entries(scopes)) {
+            expandedMap[role] ??= {};
+            expandedMap[role][resource] ??= {};
+            expandedMap[role][resource][permission] ??= {};
+
+            const grants = expandedMap[role][resource][permission];
+            grants[scope] = combineInheritedEntry(grants[scope], entry);
+          }
+        }
+      }
+    }
+  }
+
+  return expandedMap;
+};
+
+/**
+ * Builds the policy conditions map (policy ID → condition)
+ */
+export const buildPolicyConditionMap = (policies: PolicyType[]): PolicyConditionMap => {
+  const conditions: PolicyConditionMap = {};
+
+  for (const policy of policies) {
+    if (policy?.condition) conditions[policy.id] = policy.condition;
+  }
+
+  return conditions;
+};
+
+const getPolicyMapCacheKey = (tenant: string | null) => `${RBAC_POLICY_MAP_CACHE_KEY}:${getTenantCacheSuffix(tenant)}`;
+
+const getPolicyConditionsCacheKey = (tenant: string | null) => `${RBAC_POLICY_CONDITIONS_CACHE_KEY}:${getTenantCacheSuffix(tenant)}`;
+
+/**
+ * Reads cached RBAC data. A failing cache (e.g. a stalled redis) counts as a miss,
+ * so the data is loaded from the database instead of refusing every request.
+ */
+const readRBACCache = async <T>(key: string): Promise<T | null> => {
   try {
-    logger.info("Fetching RBAC policy map from cache...");
+    return ((await getCacheData(key)) as T) ?? null;
+  } catch (err) {
+    logger.error(`Error reading RBAC cache key ${key}. Loading from database:`, err);
+    return null;
+  }
+};
+
+/**
+ * Fetches the effective policies of the active tenant (see resolveActiveTenant) and the global ones
+ * from the database and caches the RBAC map and the policy conditions of the tenant
+ */
+const loadRBACPolicyData = async (activeTenant: string | null): Promise<{ policiesMap: RBACMap; conditions: PolicyConditionMap }> => {
+  logger.info(`RBAC cache miss for tenant ${getTenantCacheSuffix(activeTenant)} → fetching from database...`);
 
-    let policiesMap = (await getCacheData(RBAC_POLICY_MAP_CACHE_KEY)) as RBACMap | null;
+  const generation = rbacMapGeneration;
 
-    if (!policiesMap) {
-      logger.info("RBAC cache miss → fetching from database...");
+  const policyQuery = { ...EFFECTIVE_POLICY_FILTER, ...getTenantScopeWhere(activeTenant) };
+  const policyRelations = { permission: true, resource: true, scope: true, role: true };
+
+  // Ensure this returns PolicyType[]
+  const policies = (await getAllRecordsWithFilter(
+    Policy,
+    { where: policyQuery, relations: policyRelations }
+  )) as PolicyType[];
+  const hierarchy = await getRoleHierarchy(activeTenant);
+
+  const policiesMap = await buildRBACMap(policies, hierarchy);
+  const conditions = buildPolicyConditionMap(policies);
 
-      const policyQuery: Record<string, unknown> = {};
-      const policyRelations = { permission: true, resource: true, scope: true, role: true };
+  // expire the cache when the next policy becomes valid or expires
+  const nextValidityChange = getNextValidityChange(policies);
+  const cacheTime = nextValidityChange === null
+    ? config.RBAC_CACHE_TIME
+    : Math.max(1, Math.min(config.RBAC_CACHE_TIME, Math.ceil((nextValidityChange - Date.now()) / 1000)));
+
+  if (generation === rbacMapGeneration) {
+    try {
+      await setCacheData(getPolicyMapCacheKey(activeTenant), policiesMap, cacheTime);
+      await setCacheData(getPolicyConditionsCacheKey(activeTenant), conditions, cacheTime);
+    } catch (err) {
+      logger.error("Error caching the RBAC policy map. Serving it uncached:", err);
+    }
+  } else {
+    logger.info("RBAC policies changed while building the map. Skipping cache.");
+  }
 
-      // Ensure this returns PolicyType[]
-      const policies = (await getAllRecordsWithFilter(
-        Policy,
-        { where: policyQuery, relations: policyRelations }
-      )) as PolicyType[];
+  return { policiesMap, conditions };
+};
+
+/**
+ * Retrieves the RBAC policy map of the tenant from Redis cache if available.
+ * Otherwise, fetches policies from the database, builds the map, and caches it.
+ * Missing or deleted organizations share the global map, so they do not add cache keys.
+ */
+export const getRBACPolicyMap = async (tenant: string | null = null): Promise<RBACMap> => {
+  try {
+    const activeTenant = await resolveActiveTenant(tenant);
+    logger.info(`Fetching RBAC policy map of tenant ${getTenantCacheSuffix(activeTenant)} from cache...`);
 
-      policiesMap = await buildRBACMap(policies);
+    let policiesMap = await readRBACCache<RBACMap>(getPolicyMapCacheKey(activeTenant));
 
-      await setCacheData(RBAC_POLICY_MAP_CACHE_KEY, policiesMap, config.RBAC_CACHE_TIME);
+    if (!policiesMap) {
+      policiesMap = (await loadRBACPolicyData(activeTenant)).policiesMap;
     } else {
       logger.info("RBAC cache hit.");
     }
@@ -115,3 +429,270 @@ export const getRBACPolicyMap = async (): Promise<RBACMap> => {
     return {};
   }
 };
+
+/**
+ * Retrieves the policy conditions from cache, or rebuilds them together with the RBAC policy map.
+ * Fails closed: on errors the caller gets null and must treat conditional policies as not granted.
+ */
+export const getRBACPolicyConditions = async (tenant: string | null = null): Promise<PolicyConditionMap | null> => {
+  try {
+    const activeTenant = await resolveActiveTenant(tenant);
+    const conditions = await readRBACCache<PolicyConditionMap>(getPolicyConditionsCacheKey(activeTenant));
+    if (conditions) return conditions;
+
+    return (await loadRBACPolicyData(activeTenant)).conditions;
+  } catch (err) {
+    logger.error("Error in getRBACPolicyConditions:", err);
+    return null;
+  }
+};
+
+/**
+ * Drops the cached RBAC policy maps and policy conditions of every tenant, since a change of
+ * a global record applies to all of them. The next lookup rebuilds them from the database.
+ */
+export const invalidateRBACPolicyMap = async () => {
+  rbacMapGeneration += 1;
+  logger.info("Invalidating RBAC policy map cache.");
+  await deleteCacheKeys(`${RBAC_POLICY_MAP_CACHE_KEY}:`);
+  await deleteCacheKeys(`${RBAC_POLICY_CONDITIONS_CACHE_KEY}:`);
+};
+
+/**
+ * Forces a rebuild of the cached RBAC policy map (the maps of the other tenants are rebuilt on their next lookup)
+ */
+export const rebuildRBACPolicyMap = async (tenant: string | null = null): Promise<RBACMap> => {
+  await invalidateRBACPolicyMap();
+  return await getRBACPolicyMap(tenant);
+};
+
+/**
+ * Preloads the global RBAC policy map into the cache, so the first requests do not pay for building it
+ */
+export const warmUpRBACPolicyMap = async (): Promise<RBACMap> => {
+  logger.info("Warming up RBAC policy map cache...");
+  return await getRBACPolicyMap();
+};
+
+/**
+ * Flattens the RBAC map into "ROLE|RESOURCE|PERMISSION|SCOPE|EFFECT" keys
+ */
+export const getRBACGrantKeys = (policiesMap: RBACMap): Set<string> => {
+  const keys = new Set<string>();
+
+  for (const [role, resources] of Object.entries(policiesMap)) {
+    for (const [resource, permissions] of Object.entries(resources)) {
+      for (const [permission, scopes] of Object.entries(permissions)) {
+        for (const [scope, entry] of Object.entries(scopes)) {
+          keys.add([role, resource, permission, scope, entry.effect].join("|"));
+        }
+      }
+    }
+  }
+
+  return keys;
+};
+
+/**
+ * Lists the effective grants of a role inside the tenant together with the role each grant comes from.
+ * Optionally filtered by resource, permission and scope.
+ */
+export const explainRoleGrants = async (
+  roleName: string,
+  filter: Partial<AccessRequirement> = {},
+  tenant: string | null = null
+): Promise<RoleGrantExplanation[]> => {
+  const activeTenant = await resolveActiveTenant(tenant);
+  const policies = await getAllRecordsWithFilter<PolicyType>(Policy, {
+    where: { ...EFFECTIVE_POLICY_FILTER, ...getTenantScopeWhere(activeTenant) },
+    relations: { permission: true, resource: true, scope: true, role: true },
+  });
+  const hierarchy = await getRoleHierarchy(activeTenant);
+
+  // without the hierarchy the map only holds the grants of each role itself
+  const directMap = await buildRBACMap(policies);
+  const ancestors = getRoleAncestors(roleName, hierarchy);
+
+  const resourceFilter = filter.resource?.toUpperCase();
+  const permissionFilter = filter.permission?.toUpperCase();
+  const scopeFilter = filter.scope?.toUpperCase();
+
+  // resource|permission|scope → grant applying to the role
+  const grants = new Map<string, RoleGrantExplanation>();
+
+  ancestors.forEach((ancestor, depth) => {
+    for (const [resource, permissions] of Object.entries(directMap[ancestor] ?? {})) {
+      if (resourceFilter && resource !== resourceFilter) continue;
+
+      for (const [permission, scopes] of Object.entries(permissions)) {
+        if (permissionFilter && permission !== permissionFilter) continue;
+
+        for (const [scope, entry] of Object.entries(scopes)) {
+          if (scopeFilter && scope !== scopeFilter) continue;
+
+          // same rule as the expanded map: a deny wins, otherwise the nearest role
+          const key = [resource, permission, scope].join("|");
+          const current = grants.get(key);
+          if (current && combineInheritedEntry(current, entry) === current) continue;
+
+          grants.set(key, {
+            resource,
+            permission,
+            scope,
+            policyId: entry.policyId,
+            effect: entry.effect,
+            grantedBy: ancestor,
+            inherited: depth > 0,
+            path: ancestors.slice(0, depth + 1),
+          });
+        }
+      }
+    }
+  });
+
+  return [...grants.values()];
+};
+
+export interface AccessRequirement {
+  resource: string;
+  permission: string;
+  scope?: string;
+}
+
+export interface AccessMatch {
+  role: string;
+  resource: string;
+  permission: string;
+  scope: string;
+  policyId: string;
+  effect: PolicyEffect;
+  // the policy has a condition which held (or, for a deny, could not be evaluated)
+  conditional: boolean;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  // allow policy granting the access
+  match: AccessMatch | null;
+  // deny policy refusing the access
+  deniedBy: AccessMatch | null;
+}
+
+/**
+ * Resolves the active role names of a user from the UserRoleMap assignments inside their validity period.
+ * Inside a tenant the assignments of the tenant and the global assignments apply.
+ * The legacy `User.role` column (set by the server at signup) only applies without an active tenant:
+ * inside an organization the user holds only the roles assigned to them through UserRoleMap.
+ * Single role resolution of the route guard, record-level decisions and the policy check endpoint.
+ */
+export const getUserRoleNames = async (userId: string, tenant: string | null = null): Promise<string[]> => {
+  try {
+    const roles = new Set<string>();
+
+    const user = await findUserById(userId);
+    if (!user) {
+      logger.debug(`User ${userId} not found. No roles resolved.`);
+      return [];
+    }
+
+    const activeTenant = await resolveActiveTenant(tenant);
+    if (user.role && !activeTenant) roles.add(user.role.toUpperCase());
+
+    const userRoleMaps = (await getAllRecordsWithFilter(UserRoleMap, {
+      where: {
+        user: { id: user.id },
+        isDeleted: 0,
+        ...getTenantScopeWhere(activeTenant),
+        role: { isDeleted: 0, ...getTenantScopeWhere(activeTenant) },
+      },
+      relations: { role: true },
+    })) as UserRoleMap[];
+
+    const now = new Date();
+
+    for (const userRoleMap of userRoleMaps) {
+      if (!isWithinValidity(userRoleMap, now)) continue;
+
+      const roleName = userRoleMap?.role?.name?.toUpperCase();
+      if (roleName) roles.add(roleName);
+    }
+
+    return [...roles];
+  } catch (err) {
+    logger.error("Error in getUserRoleNames:", err);
+    return [];
+  }
+};
+
+/**
+ * Checks whether the user belongs to the organization: it is their home organization
+ * (User.organizationId) or they hold an active role assignment inside it
+ */
+export const isOrganizationMember = async (userId: string, tenant: string): Promise<boolean> => {
+  try {
+    const user = await findUserById(userId);
+    if (!user) return false;
+    if (user.organizationId === tenant) return true;
+
+    const userRoleMaps = (await getAllRecordsWithFilter(UserRoleMap, {
+      where: { user: { id: user.id }, organizationId: tenant, isDeleted: 0, role: { isDeleted: 0 } },
+    })) as UserRoleMap[];
+
+    const now = new Date();
+    return userRoleMaps.some((userRoleMap) => isWithinValidity(userRoleMap, now));
+  } catch (err) {
+    logger.error("Error in isOrganizationMember:", err);
+    return false;
+  }
+};
+
+/**
+ * Decides whether the roles are granted the requirement, using deny-overrides per scope:
+ *  - a deny of any role for the resource, permission and required scope refuses the access,
+ *    whatever the other roles allow; a global deny refuses every scope
+ *  - otherwise access is allowed when a role is granted the required scope
+ * When no scope is required, any scope granted for the permission matches and only global denies apply:
+ * whether a deny of a narrower scope (e.g. own) applies depends on the record (see decideRecordAccess).
+ * Policies with a condition only apply when the condition holds for the context; a deny whose
+ * condition can not be evaluated applies (fails closed). Without the conditions map (null) the access is refused.
+ */
+export const decideAccess = (
+  policiesMap: RBACMap,
+  roles: string[],
+  requirement: AccessRequirement,
+  conditions: PolicyConditionMap | null,
+  context: PolicyConditionContext = {}
+): AccessDecision => {
+  const refused: AccessDecision = { allowed: false, match: null, deniedBy: null };
+  if (!conditions) return refused;
+
+  const resource = requirement.resource?.toUpperCase();
+  const permission = requirement.permission?.toUpperCase();
+  const scope = requirement.scope?.toUpperCase();
+
+  let match: AccessMatch | null = null;
+
+  for (const rawRole of roles) {
+    const role = rawRole?.toUpperCase();
+    const scopes = policiesMap?.[role]?.[resource]?.[permission];
+    if (!scopes) continue;
+
+    for (const [candidateScope, { policyId, effect }] of Object.entries(scopes)) {
+      const isDeny = effect === POLICY_EFFECT.DENY;
+      const appliesToScope = isDeny
+        ? candidateScope === scope || GLOBAL_SCOPES.includes(candidateScope)
+        : !scope || candidateScope === scope;
+      if (!appliesToScope) continue;
+
+      const condition = conditions[policyId];
+      if (condition && !evaluatePolicyCondition(condition, context, isDeny)) continue;
+
+      const candidate: AccessMatch = { role, resource, permission, scope: candidateScope, policyId, effect, conditional: !!condition };
+      if (isDeny) return { ...refused, deniedBy: candidate };
+
+      match ??= candidate;
+    }
+  }
+
+  return match ? { allowed: true, match, deniedBy: null } : refused;
+};
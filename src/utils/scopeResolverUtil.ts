@@ -0,0 +1,176 @@
+/**
+ * Scope Resolver Utility Module
+ * -----------------------------
+ * Gives the scope of a policy its meaning for a target record.
+ *
+ * The route guard (`authorize`) has no record at hand, so it accepts a grant of any scope.
+ * Controllers narrow that down once the record is loaded:
+ *
+ *  const decision = await decideRecordAccess(request, { resource: 'course', permission: 'update' }, course);
+ *  if (!decision.allowed) → 403
+ *
+ * Only the policies whose scope resolves for the record are considered: a deny refuses the access
+ * when its scope covers the record (deny-overrides), e.g. an `own` deny only for the caller's records.
+ * A deny whose resolver fails applies. Policy conditions apply (the record is the `resource` of the
+ * condition context).
+ *
+ * Scope resolvers are registered by (lower case) scope name. Built-in resolvers:
+ *  - global / all : always matches
+ *  - own          : the record was created by the caller (`createdBy`)
+ * Scopes without a resolver never match a record. There is no team model yet, a `team` scope
+ * needs a resolver based on explicit team membership (registerScopeResolver).
+ *
+ * Grants and roles are those of the request's organization (tenant) and the global ones.
+ */
+
+import { FastifyRequest } from "fastify";
+import { getLogger } from "./logger";
+import { getRequestEnvironment, PolicyConditionContext } from "./policyConditionUtil";
+import { getRequestTenant } from "./tenantUtil";
+import {
+  AccessDecision,
+  AccessRequirement,
+  decideAccess,
+  getRBACPolicyConditions,
+  getRBACPolicyMap,
+  getUserRoleNames,
+  POLICY_EFFECT,
+  PolicyConditionMap,
+  RBACMap,
+} from "./rbacUtil";
+
+const logger = getLogger();
+
+export interface ScopeResolverContext {
+  subject: { userId: string; roles: string[] };
+  // organization of the request, null → global tenant
+  tenant: string | null;
+  // the record being accessed, e.g. a loaded entity
+  target: Record<string, any>;
+  resource: string;
+  permission: string;
+}
+
+export type ScopeResolver = (context: ScopeResolverContext) => boolean | Promise<boolean>;
+
+/**
+ * Id of the user who created the record, `createdBy` may be the loaded relation or the id itself
+ */
+const getCreatorId = (target: Record<string, any>): string | null => {
+  const creator = target?.createdBy?.id ?? target?.createdBy ?? target?.createdById;
+  return creator === undefined || creator === null || typeof creator === "object" ? null : String(creator);
+};
+
+const globalScopeResolver: ScopeResolver = () => true;
+
+const ownScopeResolver: ScopeResolver = ({ subject, target }) => {
+  const creatorId = getCreatorId(target);
+  return creatorId !== null && creatorId === String(subject.userId);
+};
+
+const scopeResolvers: Record<string, ScopeResolver> = {
+  global: globalScopeResolver,
+  all: globalScopeResolver,
+  own: ownScopeResolver,
+};
+
+/** Register a scope resolver (e.g. department, tenant) under the scope name */
+export function registerScopeResolver(scope: string, resolver: ScopeResolver) {
+  scopeResolvers[scope.toLowerCase()] = resolver;
+}
+
+/**
+ * Checks whether the scope applies to the target record. Resolver errors return `onError`.
+ */
+export const resolveScope = async (scope: string, context: ScopeResolverContext, onError: boolean = false): Promise<boolean> => {
+  const resolver = scopeResolvers[scope?.toLowerCase()];
+
+  if (!resolver) {
+    logger.debug(`No scope resolver registered for scope '${scope}'.`);
+    return false;
+  }
+
+  try {
+    return (await resolver(context)) === true;
+  } catch (err) {
+    logger.error(`Error resolving scope '${scope}':`, err);
+    return onError;
+  }
+};
+
+/**
+ * Decides the access to the target record with the loaded policies: every scope granted or denied
+ * for the resource and permission is resolved for the record, a deny of a resolving scope refuses the access.
+ */
+export const decideTargetAccess = async (
+  policiesMap: RBACMap,
+  roles: string[],
+  requirement: Omit<AccessRequirement, "scope">,
+  conditions: PolicyConditionMap | null,
+  scopeContext: ScopeResolverContext,
+  conditionContext: PolicyConditionContext = {}
+): Promise<AccessDecision> => {
+  const refused: AccessDecision = { allowed: false, match: null, deniedBy: null };
+
+  const resource = requirement.resource.toUpperCase();
+  const permission = requirement.permission.toUpperCase();
+
+  // scopes granted or denied to any of the roles for the resource and permission → denied by one of them
+  const scopes = new Map<string, boolean>();
+  for (const role of roles.map((name) => name?.toUpperCase())) {
+    for (const [scope, { effect }] of Object.entries(policiesMap?.[role]?.[resource]?.[permission] ?? {})) {
+      scopes.set(scope, scopes.get(scope) || effect === POLICY_EFFECT.DENY);
+    }
+  }
+
+  let match: AccessDecision["match"] = null;
+
+  for (const [scope, isDenied] of scopes) {
+    // a deny is not lifted by a failing resolver
+    if (!(await resolveScope(scope, scopeContext, isDenied))) continue;
+
+    const decision = decideAccess(policiesMap, roles, { ...requirement, scope }, conditions, conditionContext);
+    if (decision.deniedBy) {
+      logger.info(`Access to ${resource} denied for scope ${decision.deniedBy.scope} by policy ${decision.deniedBy.policyId}.`);
+      return { ...refused, deniedBy: decision.deniedBy };
+    }
+
+    match ??= decision.match;
+  }
+
+  return { allowed: !!match, match, deniedBy: null };
+};
+
+/**
+ * Decides whether the request's user may perform the permission on the target record.
+ */
+export const decideRecordAccess = async (
+  request: FastifyRequest,
+  requirement: Omit<AccessRequirement, "scope">,
+  target: Record<string, any>
+): Promise<AccessDecision> => {
+  const refused: AccessDecision = { allowed: false, match: null, deniedBy: null };
+
+  const user = request.user;
+  if (!user?.userId) return refused;
+
+  const tenant = getRequestTenant(request);
+  const roles = await getUserRoleNames(user.userId, tenant);
+  const policiesMap = await getRBACPolicyMap(tenant);
+  const conditions = await getRBACPolicyConditions(tenant);
+
+  const scopeContext: ScopeResolverContext = {
+    subject: { userId: user.userId, roles },
+    tenant,
+    target,
+    resource: requirement.resource,
+    permission: requirement.permission,
+  };
+  const conditionContext: PolicyConditionContext = {
+    subject: { ...user, roles, organizationId: tenant },
+    resource: target,
+    environment: getRequestEnvironment(request),
+  };
+
+  return decideTargetAccess(policiesMap, roles, requirement, conditions, scopeContext, conditionContext);
+};
@@ -0,0 +1,90 @@
+/**
+ * Session Utility Module
+ * ----------------------
+ * Single place issuing the session of a user for every login flow.
+ * Cookie name, domain, SameSite, lifetime and the secure flag are all taken
+ * from `config.SESSION`.
+ *
+ * Browser clients can send `x-token-delivery: cookie` to receive the tokens
+ * only through httpOnly cookies (not echoed in the JSON body).
+ */
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import { CookieSerializeOptions } from "@fastify/cookie";
+import { User } from "../entities/User";
+import { config } from "../config/config";
+import { IssuedTokens, issueTokens } from "./tokenUtil";
+import { toTokenPayload } from "./userUtil";
+
+export const TOKEN_DELIVERY_HEADER = 'x-token-delivery';
+
+// cookie names of older clients, cleared on logout and still accepted by the auth middleware
+export const LEGACY_ACCESS_TOKEN_COOKIES = ['token', 'jwtToken'];
+
+const getCookieOptions = (maxAge: number): CookieSerializeOptions => ({
+  httpOnly: true,
+  secure: config.IS_PRODUCTION,
+  sameSite: config.SESSION.COOKIE_SAME_SITE,
+  domain: config.SESSION.COOKIE_DOMAIN,
+  path: '/',
+  maxAge,
+});
+
+/**
+ * Sets the access and refresh token cookies
+ */
+export const setSessionCookies = (reply: FastifyReply, tokens: IssuedTokens) => {
+  reply
+    .setCookie(config.SESSION.ACCESS_TOKEN_COOKIE_NAME, tokens.accessToken, getCookieOptions(config.ACCESS_TOKEN_TIME))
+    .setCookie(config.SESSION.REFRESH_TOKEN_COOKIE_NAME, tokens.refreshToken, getCookieOptions(config.REFRESH_TOKEN_TIME));
+};
+
+/**
+ * Clears every session cookie, including the legacy ones
+ */
+export const clearSessionCookies = (reply: FastifyReply) => {
+  const cookieNames = new Set([
+    config.SESSION.ACCESS_TOKEN_COOKIE_NAME,
+    config.SESSION.REFRESH_TOKEN_COOKIE_NAME,
+    ...LEGACY_ACCESS_TOKEN_COOKIES,
+  ]);
+
+  for (const cookieName of cookieNames) {
+    reply.clearCookie(cookieName, { path: '/', domain: config.SESSION.COOKIE_DOMAIN });
+  }
+};
+
+/**
+ * Reads the refresh token from the cookie or the request body
+ */
+export const getRefreshTokenFromRequest = (request: FastifyRequest): string | undefined => {
+  const body = request.body as { refreshToken?: string } | undefined;
+  return request.cookies?.[config.SESSION.REFRESH_TOKEN_COOKIE_NAME] || body?.refreshToken;
+};
+
+/**
+ * Returns the tokens to add in the response body, if they should be echoed
+ */
+export const getTokenResponseData = (request: FastifyRequest, tokens: IssuedTokens) => {
+  const isCookieOnly = request.headers?.[TOKEN_DELIVERY_HEADER] === 'cookie';
+
+  if (!config.SESSION.RETURN_TOKENS_IN_BODY || isCookieOnly) return {};
+
+  return { token: tokens.accessToken, refreshToken: tokens.refreshToken };
+};
+
+/**
+ * Sets the session cookies for already issued tokens and returns the body data
+ */
+export const sendSessionTokens = (request: FastifyRequest, reply: FastifyReply, tokens: IssuedTokens) => {
+  setSessionCookies(reply, tokens);
+  return getTokenResponseData(request, tokens);
+};
+
+/**
+ * Issues a new session for the user
+ */
+export const startSession = async (request: FastifyRequest, reply: FastifyReply, user: User) => {
+  const tokens = await issueTokens(request.server, toTokenPayload(user));
+  return sendSessionTokens(request, reply, tokens);
+};
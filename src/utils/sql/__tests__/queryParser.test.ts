@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NAMED_ENTITY_LIST_QUERY_CONFIG, parseListQuery } from '../queryParser';
+
+describe('parseListQuery', () => {
+  it('searches every search field', () => {
+    const listQuery = parseListQuery({ q: 'admin' }, NAMED_ENTITY_LIST_QUERY_CONFIG);
+
+    assert.deepEqual(listQuery.errors, []);
+    assert.ok(Array.isArray(listQuery.where));
+    assert.deepEqual((listQuery.where as Record<string, any>[]).map((clause) => Object.keys(clause).sort()), [
+      ['isDeleted', 'name'],
+      ['description', 'isDeleted'],
+    ]);
+  });
+
+  it('refuses q on lists without search fields', () => {
+    const config = { searchFields: [], sortFields: [], selectFields: [] };
+
+    assert.deepEqual(parseListQuery({ q: 'admin' }, config).errors, ['Searching (q) is not supported by this list.']);
+    assert.deepEqual(parseListQuery({ title: 'admin' }, config).errors, ['Searching (q) is not supported by this list.']);
+    assert.deepEqual(parseListQuery({ q: '  ' }, config).errors, []);
+  });
+});
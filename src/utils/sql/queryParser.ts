@@ -0,0 +1,196 @@
+/*
+    File contains the query parser shared by the list endpoints.
+    Translates the request query string into TypeORM find options.
+
+    Supported query params:
+        - page, limit          : pagination (limit is capped to MAX_PAGE_LIMIT)
+        - cursor               : keyset pagination on (createdAt, id), empty for the first page. Replaces page.
+        - count                : 'true' to also return the total count in cursor mode
+        - q (or title)         : case-insensitive search on the entity search fields, refused without search fields
+        - createdBy            : id of the user who created the record
+        - createdAtFrom/To     : createdAt range (any date accepted by Date)
+        - isDeleted            : 'true' to list soft deleted records (default 'false')
+        - sort                 : comma separated fields, '-' prefix for descending. e.g. sort=-createdAt,name
+        - fields               : comma separated fields to select. e.g. fields=name,description
+
+    Every field must be whitelisted in the ListQueryConfig of the entity.
+*/
+
+import { Between, FindOptionsOrder, FindOptionsSelect, LessThanOrEqual, Like, MoreThanOrEqual } from "typeorm";
+
+export const DEFAULT_PAGE_LIMIT = 10;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface ListQueryConfig {
+  searchFields: string[];
+  sortFields: string[];
+  selectFields: string[];
+  defaultSort?: Record<string, "ASC" | "DESC">;
+}
+
+export interface ListQueryString {
+  page?: string;
+  limit?: string;
+  q?: string;
+  title?: string;
+  createdBy?: string;
+  createdAtFrom?: string;
+  createdAtTo?: string;
+  isDeleted?: string;
+  sort?: string;
+  fields?: string;
+  cursor?: string;
+  count?: string;
+}
+
+export interface ListCursor {
+  createdAt: string; // exact db value, e.g. 2024-01-01 10:00:00.123456
+  id: string;
+  direction: "next" | "prev";
+}
+
+export interface ParsedListQuery {
+  page: { page: number; limit: number };
+  where: Record<string, any> | Record<string, any>[];
+  order: FindOptionsOrder<any>;
+  select?: FindOptionsSelect<any>;
+  // undefined → offset pagination, null → first page of cursor pagination
+  cursor?: ListCursor | null;
+  withCount: boolean;
+  errors: string[];
+}
+
+const CURSOR_DATE_REGEX = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/**
+ * Encodes a keyset cursor into an opaque token
+ */
+export const encodeCursor = (cursor: ListCursor): string => {
+  return Buffer.from(JSON.stringify({ c: cursor.createdAt, i: cursor.id, d: cursor.direction === "prev" ? "p" : "n" })).toString("base64url");
+};
+
+/**
+ * Decodes an opaque cursor token. Returns null when the token is invalid.
+ */
+export const decodeCursor = (token: string): ListCursor | null => {
+  try {
+    const { c, i, d } = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (typeof c !== "string" || !CURSOR_DATE_REGEX.test(c) || (typeof i !== "string" && typeof i !== "number")) return null;
+    return { createdAt: c, id: String(i), direction: d === "p" ? "prev" : "next" };
+  } catch (error) {
+    return null;
+  }
+};
+
+// escapes the LIKE wildcards of the user input
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const splitList = (value?: string) =>
+  (value || "").split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+
+const parseDate = (value: string, param: string, errors: string[]) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    errors.push(`${param} must be a valid date.`);
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Parses the list query string according to the entity config
+ */
+export const parseListQuery = (query: ListQueryString = {}, config: ListQueryConfig): ParsedListQuery => {
+  const errors: string[] = [];
+
+  // pagination
+  const page = Math.max(parseInt(query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT);
+
+  // filters
+  const where: Record<string, any> = {};
+
+  if (query.isDeleted !== undefined && !["true", "false"].includes(query.isDeleted)) {
+    errors.push("isDeleted must be 'true' or 'false'.");
+  }
+  where.isDeleted = query.isDeleted === "true" ? 1 : 0;
+
+  if (query.createdBy !== undefined) {
+    const createdBy = Number(query.createdBy);
+    if (!Number.isInteger(createdBy)) {
+      errors.push("createdBy must be a user id.");
+    } else {
+      where.createdBy = { id: createdBy };
+    }
+  }
+
+  const from = query.createdAtFrom ? parseDate(query.createdAtFrom, "createdAtFrom", errors) : null;
+  const to = query.createdAtTo ? parseDate(query.createdAtTo, "createdAtTo", errors) : null;
+  if (from && to) where.createdAt = Between(from, to);
+  else if (from) where.createdAt = MoreThanOrEqual(from);
+  else if (to) where.createdAt = LessThanOrEqual(to);
+
+  // sorting
+  const order: Record<string, "ASC" | "DESC"> = {};
+  for (const sortField of splitList(query.sort)) {
+    const direction = sortField.startsWith("-") ? "DESC" : "ASC";
+    const field = sortField.replace(/^[-+]/, "");
+    if (!config.sortFields.includes(field)) {
+      errors.push(`Sorting by '${field}' is not allowed.`);
+      continue;
+    }
+    order[field] = direction;
+  }
+
+  // sparse fieldsets
+  let select: Record<string, boolean> | undefined;
+  const fields = splitList(query.fields);
+  if (fields.length > 0) {
+    select = { id: true };
+    for (const field of fields) {
+      if (!config.selectFields.includes(field)) {
+        errors.push(`Selecting '${field}' is not allowed.`);
+        continue;
+      }
+      select[field] = true;
+    }
+  }
+
+  // cursor pagination
+  let cursor: ListCursor | null | undefined;
+  if (query.cursor !== undefined) {
+    cursor = query.cursor.trim() ? decodeCursor(query.cursor.trim()) : null;
+    if (query.cursor.trim() && !cursor) errors.push("cursor is invalid.");
+    if (Object.keys(order).length > 0) errors.push("sort is not supported with cursor pagination.");
+  }
+
+  // search → one OR condition per search field
+  const search = (query.q ?? query.title ?? "").trim();
+  let whereWithSearch: Record<string, any> | Record<string, any>[] = where;
+  if (search && config.searchFields.length === 0) {
+    errors.push("Searching (q) is not supported by this list.");
+  } else if (search) {
+    const pattern = Like(`%${escapeLike(search)}%`);
+    whereWithSearch = config.searchFields.map((field) => ({ ...where, [field]: pattern }));
+  }
+
+  return {
+    page: { page, limit },
+    where: whereWithSearch,
+    order: Object.keys(order).length > 0 ? order : (config.defaultSort ?? { createdAt: "DESC" }),
+    select,
+    cursor,
+    withCount: query.count === "true",
+    errors,
+  };
+};
+
+/**
+ * Default list config for the named RBAC entities (role, permission, resource, scope)
+ */
+export const NAMED_ENTITY_LIST_QUERY_CONFIG: ListQueryConfig = {
+  searchFields: ["name", "description"],
+  sortFields: ["name", "createdAt", "updatedAt"],
+  selectFields: ["name", "description", "isDeleted", "createdAt", "updatedAt"],
+  defaultSort: { createdAt: "DESC" },
+};
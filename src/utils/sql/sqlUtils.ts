@@ -1,20 +1,46 @@
 /*
-    File contains utility functions for performing DB operations (TypeORM + NodeCache)
+    File contains utility functions for performing DB operations (TypeORM + cache)
+
+    Read helpers accept `isCache` to read through the cache. Cache keys are derived from
+    the entity name and the query (`key` only adds a discriminator), and every write of the
+    entity drops its keys (see EntityCacheSubscriber).
 */
 
-import { BaseEntity, FindManyOptions } from "typeorm";
-import { getCacheData, setCacheData } from '../cache/cacheUtils'; // your NodeCache utils
+import { createHash } from "crypto";
+import { BaseEntity, Brackets, EntityTarget, FindManyOptions, FindOptionsWhere, In, InsertResult, QueryRunner, UpdateResult } from "typeorm";
+import { deleteCacheKeys, readThroughCache } from '../cache/cacheUtils';
+import { ENTITY_CACHE_KEY_PREFIX } from "../cache/cacheKeys";
+import { stableStringify } from "../util";
 import { config } from "../../config/config"; 
 import { getLogger } from "../logger";
+import { AppDataSource } from "../../config/database";
+import { encodeCursor, ListCursor, ParsedListQuery } from "./queryParser";
 
 const logger = getLogger();
 
-export async function getAllRecords(
+/**
+ * Builds the cache key of an entity query: entity:<Entity>:<operation>:<hash of key + query>
+ */
+export function getEntityCacheKey(model: typeof BaseEntity, operation: string, query: unknown, key: string = ""): string {
+  const hash = createHash("sha1").update(`${key}|${stableStringify(query ?? {})}`).digest("hex");
+  return `${getEntityCachePrefix(model.name)}${operation}:${hash}`;
+}
+
+export function getEntityCachePrefix(entityName: string): string {
+  return `${ENTITY_CACHE_KEY_PREFIX}${entityName}:`;
+}
+
+// Drops every cached query of the entity
+export async function invalidateEntityCache(entityName: string) {
+  await deleteCacheKeys(getEntityCachePrefix(entityName));
+}
+
+export async function getAllRecords<T = any>(
   model: typeof BaseEntity,
   key: string = "",
   isCache: boolean = false,
   cacheLimit: number = config.DEFAULT_CACHE_TIME
-) {
+): Promise<T[]> {
   try {
     const hasIsDeletedField = model.getRepository().metadata.columns.some(
       (column) => column.propertyName === "isDeleted"
@@ -23,19 +49,10 @@ export async function getAllRecords(
     const query: FindManyOptions = hasIsDeletedField ? { where: { isDeleted: false } } : {};
 
     if (isCache) {
-      const cacheData = getCacheData(key);
-      if (cacheData) {
-        logger.info(`Cache hit [${key}] → getAllRecords`);
-        return cacheData;
-      }
-
-      const data = await model.find(query);
-      logger.info(`Cache miss [${key}] → fetched from DB`);
-      setCacheData(key, data, cacheLimit);
-      return data;
+      return await readThroughCache(getEntityCacheKey(model, "find", query, key), () => model.find(query) as Promise<T[]>, cacheLimit);
     }
 
-    return await model.find(query);
+    return (await model.find(query)) as T[];
   } catch (err) {
     logger.error("ERROR in getAllRecords", err);
     throw err;
@@ -58,30 +75,19 @@ export async function createRecords(
 }
 
 // Gets a single record by query
-export async function getSingleRecord(
+export async function getSingleRecord<T = any>(
   model: typeof BaseEntity,
   query: any,
   key: string = "",
   isCache: boolean = false,
   cacheLimit: number = config.DEFAULT_CACHE_TIME
-) {
+): Promise<T | null> {
   try {
     if (isCache) {
-      const cacheData = getCacheData(key);
-      if (cacheData) {
-        logger.info(`Cache hit [${key}] → getSingleRecord`);
-        return cacheData;
-      }
-
-      const data = await model.findOne(query);
-      if (data) {
-        logger.info(`Cache miss [${key}] → fetched from DB`);
-        setCacheData(key, data, cacheLimit);
-      }
-      return data;
+      return await readThroughCache(getEntityCacheKey(model, "findOne", query, key), () => model.findOne(query) as Promise<T | null>, cacheLimit);
     }
 
-    return await model.findOne(query);
+    return (await model.findOne(query)) as T | null;
   } catch (err) {
     logger.error("ERROR in getSingleRecord", err);
     throw err;
@@ -89,28 +95,19 @@ export async function getSingleRecord(
 }
 
 // Gets all records matching a filter
-export async function getAllRecordsWithFilter(
+export async function getAllRecordsWithFilter<T = any>(
   model: typeof BaseEntity,
   query: any,
   key: string = "",
   isCache: boolean = false,
   cacheLimit: number = config.DEFAULT_CACHE_TIME
-) {
+): Promise<T[]> {
   try {
     if (isCache) {
-      const cacheData = getCacheData(key);
-      if (cacheData) {
-        logger.info(`Cache hit [${key}] → getAllRecordsWithFilter`);
-        return cacheData;
-      }
-
-      const data = await model.find(query);
-      logger.info(`Cache miss [${key}] → fetched from DB`);
-      setCacheData(key, data, cacheLimit);
-      return data;
+      return await readThroughCache(getEntityCacheKey(model, "find", query, key), () => model.find(query) as Promise<T[]>, cacheLimit);
     }
 
-    return await model.find(query);
+    return (await model.find(query)) as T[];
   } catch (err) {
     logger.error("ERROR in getAllRecordsWithFilter", err);
     throw err;
@@ -132,12 +129,14 @@ export async function deleteRecords(
 }
 
 // Updates or upserts records
+export async function updateRecords(model: typeof BaseEntity, query: any, update: any, upsert?: false): Promise<UpdateResult>;
+export async function updateRecords(model: typeof BaseEntity, query: any, update: any, upsert: true): Promise<InsertResult>;
 export async function updateRecords(
   model: typeof BaseEntity,
   query: any,
   update: any,
   upsert: boolean = false
-){
+): Promise<UpdateResult | InsertResult> {
   try {
     if (upsert) {
       const newData = await model.upsert(update, query);
@@ -163,44 +162,138 @@ export async function getFilteredRecordsWithPagination<T>(
   cacheLimit: number = config.DEFAULT_CACHE_TIME
 ) {
   try {
+    const loadPage = async () => {
+      const skip = (page.page - 1) * page.limit;
+      const data = await model.find({
+        select,
+        where: query,
+        relations,
+        order: orderBy,
+        skip,
+        take: page.limit,
+      });
+
+      const totalCount = await model.count({ where: query });
+
+      return {
+        totalCount,
+        page: page.page,
+        limit: page.limit,
+        data,
+      };
+    };
+
     if (isCache) {
-      const cacheData = getCacheData(key);
-      if (cacheData) {
-        logger.info(`Cache hit [${key}] → getFilteredRecordsWithPagination`);
-        return cacheData;
-      }
+      const cacheQuery = { page, query, orderBy, select, relations };
+      return await readThroughCache(getEntityCacheKey(model, "page", cacheQuery, key), loadPage, cacheLimit);
+    }
+
+    return await loadPage();
+  } catch (err) {
+    logger.error("ERROR in getFilteredRecordsWithPagination", err);
+    throw err;
+  }
+}
+
+// entities listed with keyset pagination, they are ordered by (createdAt, id)
+interface KeysetRecord {
+  id: string | number;
+  createdAt: Date;
+}
+
+// Keyset pagination on (createdAt, id), newest first.
+// Cursors carry the exact db createdAt value so rows created in the same millisecond are not skipped.
+export async function getRecordsWithCursorPagination(
+  model: typeof BaseEntity & EntityTarget<KeysetRecord>,
+  page: { cursor: ListCursor | null; limit: number; withCount?: boolean },
+  query: any,
+  select?: any,
+  relations?: any
+) {
+  try {
+    const isPrev = page.cursor?.direction === "prev";
+    const sortDirection = isPrev ? "ASC" : "DESC";
+    const operator = isPrev ? ">" : "<";
+
+    // first query only resolves the ids of the page
+    const queryBuilder = model.getRepository()
+      .createQueryBuilder("record")
+      .setFindOptions({ where: query })
+      .select("record.id", "id")
+      .addSelect("DATE_FORMAT(record.createdAt, '%Y-%m-%d %H:%i:%s.%f')", "cursorCreatedAt");
+
+    if (page.cursor) {
+      queryBuilder.andWhere(new Brackets((qb) => {
+        qb.where(`record.createdAt ${operator} :cursorCreatedAt`, { cursorCreatedAt: page.cursor.createdAt })
+          .orWhere(`(record.createdAt = :cursorCreatedAt AND record.id ${operator} :cursorId)`, { cursorId: page.cursor.id });
+      }));
     }
 
-    const skip = (page.page - 1) * page.limit;
-    const data = await model.find({
-      select,
-      where: query,
-      relations,
-      order: orderBy,
-      skip,
-      take: page.limit,
-    });
-
-    const totalCount = await model.count({ where: query });
-
-    const result = {
-      totalCount,
-      page: page.page,
+    const rows = await queryBuilder
+      .orderBy("record.createdAt", sortDirection)
+      .addOrderBy("record.id", sortDirection)
+      .limit(page.limit + 1)
+      .getRawMany();
+
+    const hasMore = rows.length > page.limit;
+    const pageRows = rows.slice(0, page.limit);
+    if (isPrev) pageRows.reverse();
+
+    const ids = pageRows.map((row) => row.id);
+    const where: FindOptionsWhere<KeysetRecord> = { id: In(ids) };
+    const records = ids.length > 0 ? await AppDataSource.getRepository<KeysetRecord>(model).find({ where, select, relations }) : [];
+    const recordsById = new Map(records.map((record: any) => [String(record.id), record]));
+    const data = ids.map((id) => recordsById.get(String(id))).filter(Boolean);
+
+    const firstRow = pageRows[0];
+    const lastRow = pageRows[pageRows.length - 1];
+    const hasNext = isPrev ? true : hasMore;
+    const hasPrev = isPrev ? hasMore : !!page.cursor;
+
+    const result: Record<string, any> = {
       limit: page.limit,
+      nextCursor: hasNext && lastRow ? encodeCursor({ createdAt: lastRow.cursorCreatedAt, id: String(lastRow.id), direction: "next" }) : null,
+      prevCursor: hasPrev && firstRow ? encodeCursor({ createdAt: firstRow.cursorCreatedAt, id: String(firstRow.id), direction: "prev" }) : null,
       data,
     };
 
-    if (isCache) {
-      setCacheData(key, result, cacheLimit);
+    if (page.withCount) {
+      result.totalCount = await model.count({ where: query });
     }
 
     return result;
   } catch (err) {
-    logger.error("ERROR in getFilteredRecordsWithPagination", err);
+    logger.error("ERROR in getRecordsWithCursorPagination", err);
     throw err;
   }
 }
 
+// Gets a page of records for a parsed list query (cursor or offset pagination)
+export async function getListRecords(
+  model: typeof BaseEntity & EntityTarget<KeysetRecord>,
+  listQuery: ParsedListQuery,
+  relations?: any
+) {
+  if (listQuery.cursor !== undefined) {
+    return await getRecordsWithCursorPagination(
+      model,
+      { cursor: listQuery.cursor, limit: listQuery.page.limit, withCount: listQuery.withCount },
+      listQuery.where,
+      listQuery.select,
+      relations
+    );
+  }
+
+  return await getFilteredRecordsWithPagination(
+    model,
+    listQuery.page,
+    listQuery.where,
+    listQuery.order,
+    listQuery.select,
+    relations
+  );
+}
+
 // Count records
 export async function getRecordCount(
   model: typeof BaseEntity,
@@ -214,4 +307,10 @@ export async function getRecordCount(
     logger.error("ERROR in getRecordCount", err);
     throw err;
   }
-}
\ No newline at end of file
+}
+
+// Creates a query runner on a dedicated connection. The caller must release it.
+// Transactions started on a runner which is already in a transaction become savepoints.
+export function createQueryRunner(): QueryRunner {
+  return AppDataSource.createQueryRunner();
+}
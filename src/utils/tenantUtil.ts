@@ -0,0 +1,106 @@
+/**
+ * Tenant Utility Module
+ * ---------------------
+ * Resolves the organization (tenant) of a request and scopes RBAC queries to it.
+ *
+ * The tenant is taken from the `organizationId` claim of the access token; users without
+ * a home organization select it through the `config.TENANT.HEADER` request header.
+ * `authenticateToken` only accepts the header for organizations the user is a member of
+ * and stores the validated tenant on `request.user`. Without either the request runs
+ * in the global tenant (null).
+ *
+ * Roles, permissions, resources, scopes, policies and role assignments belong to an
+ * organization or are global (organizationId null). Inside a tenant:
+ *  - the records of the tenant and the global records are visible (`getTenantScopeWhere`)
+ *  - only the records of the tenant can be changed (`getTenantOwnedWhere`)
+ */
+
+import { FastifyRequest } from "fastify";
+import { BaseEntity, Equal, FindOperator, IsNull, Not, Or } from "typeorm";
+import { config } from "../config/config";
+import { Organization } from "../entities/Organization";
+import { getSingleRecord } from "./sql/sqlUtils";
+
+// organization ids are uuids
+const TENANT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// cache suffix of the global tenant, e.g. rbac:policies:global
+export const GLOBAL_TENANT_CACHE_SUFFIX = "global";
+
+/**
+ * Returns the organization id requested through the tenant header, malformed values are ignored.
+ * Not validated: only `authenticateToken` reads it, after that use `getRequestTenant`.
+ */
+export const getRequestedTenantHeader = (request: FastifyRequest): string | null => {
+  const header = request.headers?.[config.TENANT.HEADER];
+  const tenant = (Array.isArray(header) ? header[0] : header)?.trim();
+
+  return tenant && TENANT_ID_PATTERN.test(tenant) ? tenant.toLowerCase() : null;
+};
+
+/**
+ * Returns the organization id of the authenticated request, null for the global tenant.
+ * It is the token claim, or the header validated by `authenticateToken`.
+ */
+export const getRequestTenant = (request: FastifyRequest): string | null => {
+  return request.user?.organizationId ?? null;
+};
+
+/**
+ * Where clause of the records visible inside the tenant: the tenant's own and the global ones
+ */
+export const getTenantScopeWhere = (tenant: string | null): { organizationId: FindOperator<any> } => {
+  return { organizationId: tenant ? Or(Equal(tenant), IsNull()) : IsNull() };
+};
+
+/**
+ * Where clause of the records owned by the tenant (the global records for the global tenant)
+ */
+export const getTenantOwnedWhere = (tenant: string | null): { organizationId: string | FindOperator<any> } => {
+  return { organizationId: tenant ?? IsNull() };
+};
+
+/**
+ * Adds the tenant scope to a where clause, or to every clause of an OR-ed list
+ */
+export const withTenantScope = (
+  where: Record<string, any> | Record<string, any>[],
+  tenant: string | null
+): Record<string, any> | Record<string, any>[] => {
+  const scope = getTenantScopeWhere(tenant);
+  return Array.isArray(where) ? where.map((clause) => ({ ...clause, ...scope })) : { ...where, ...scope };
+};
+
+/**
+ * Finds a record of another owner whose name a record of the tenant can not take:
+ * inside a tenant the global records, for the global tenant the records of every organization
+ * (they see the global records). Records of the same owner are checked by the callers.
+ */
+export const findTenantNameClash = async (model: typeof BaseEntity, name: string, tenant: string | null) => {
+  return await getSingleRecord(model, { where: { name, organizationId: tenant ? IsNull() : Not(IsNull()) } });
+};
+
+/**
+ * Finds a record whose name the renamed record `id` can not take: a clash of another owner
+ * (see findTenantNameClash) or another record of the same owner, soft deleted ones included.
+ * The unique constraints do not cover global records, their organizationId is null.
+ */
+export const findRenameClash = async (model: typeof BaseEntity, id: string, name: string, tenant: string | null) => {
+  return (await findTenantNameClash(model, name, tenant))
+    ?? (await getSingleRecord(model, { where: { name, id: Not(id), ...getTenantOwnedWhere(tenant) } }));
+};
+
+/**
+ * Suffix of the per-tenant cache keys
+ */
+export const getTenantCacheSuffix = (tenant: string | null): string => {
+  return tenant ?? GLOBAL_TENANT_CACHE_SUFFIX;
+};
+
+/**
+ * Checks whether the organization exists and is not soft deleted (read through the entity cache)
+ */
+export const isActiveOrganization = async (tenant: string): Promise<boolean> => {
+  const organization = await getSingleRecord(Organization, { where: { id: tenant, isDeleted: 0 } }, "", true);
+  return !!organization;
+};
@@ -0,0 +1,208 @@
+/**
+ * Token Utility Module
+ * --------------------
+ * Issues access/refresh token pairs and rotates refresh tokens.
+ *
+ * Every login starts a new refresh token family. Each refresh rotates the token
+ * inside its family; presenting an already rotated token again is treated as
+ * token theft and revokes the whole family.
+ *
+ * Access tokens are invalidated server side by:
+ *  - a denylist of token ids (single logout)
+ *  - the user's token version (log out everywhere)
+ */
+
+import { FastifyInstance } from "fastify";
+import { UpdateResult } from "typeorm";
+import { randomUUID } from "crypto";
+import { RefreshToken } from "../entities/RefreshToken";
+import { config } from "../config/config";
+import { getLogger } from "./logger";
+import { createRecords, getSingleRecord, updateRecords } from "./sql/sqlUtils";
+import { checkCacheDataExist, deleteCacheData, getCacheData, setCacheData } from "./cache/cacheUtils";
+import { ACCESS_TOKEN_DENYLIST_CACHE_KEY_PREFIX, USER_TOKEN_VERSION_CACHE_KEY_PREFIX } from "./cache/cacheKeys";
+import { findUserById, toTokenPayload, updateUser } from "./userUtil";
+import { hashToken } from "./util";
+
+const logger = getLogger();
+
+export const REFRESH_TOKEN_STATUS = {
+  ROTATED: "ROTATED",
+  INVALID: "INVALID",
+  REVOKED: "REVOKED",
+  REUSED: "REUSED",
+};
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface RefreshResult {
+  status: string;
+  payload?: RefreshTokenPayload;
+  tokens?: IssuedTokens;
+}
+
+/**
+ * Signs a new access/refresh token pair and stores the refresh token.
+ * Pass the familyId of the rotated token to continue an existing family.
+ */
+export const issueTokens = async (
+  server: FastifyInstance,
+  payload: TokenPayload,
+  familyId: string = randomUUID()
+): Promise<IssuedTokens> => {
+  const tokenId = randomUUID();
+  const tokenPayload: TokenPayload = { userId: payload.userId, role: payload.role, tokenVersion: payload.tokenVersion ?? 0 };
+  if (payload.organizationId) tokenPayload.organizationId = payload.organizationId;
+  const refreshPayload: RefreshTokenPayload = { ...tokenPayload, familyId };
+
+  const accessToken = server.jwt.sign(tokenPayload, { expiresIn: config.ACCESS_TOKEN_TIME, jti: randomUUID() });
+  const refreshToken = server.jwt.sign(refreshPayload, { expiresIn: config.REFRESH_TOKEN_TIME, jti: tokenId });
+
+  await createRecords(RefreshToken, {
+    id: tokenId,
+    user: { id: Number(payload.userId) },
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TIME * 1000),
+  });
+
+  return { accessToken, refreshToken };
+};
+
+/**
+ * Revokes every refresh token of a family
+ */
+export const revokeTokenFamily = async (familyId: string) => {
+  logger.info(`Revoking refresh token family: ${familyId}`);
+  return await updateRecords(RefreshToken, { familyId, isRevoked: 0 }, { isRevoked: 1 });
+};
+
+/**
+ * Validates the refresh token against the stored one and rotates both tokens
+ */
+export const rotateRefreshToken = async (server: FastifyInstance, token: string): Promise<RefreshResult> => {
+  let payload: RefreshTokenPayload;
+
+  try {
+    payload = server.jwt.verify<RefreshTokenPayload>(token);
+  } catch (error) {
+    logger.info(`Refresh token verification failed: ${error.message}`);
+    return { status: REFRESH_TOKEN_STATUS.INVALID };
+  }
+
+  if (!payload?.jti || !payload?.familyId) {
+    logger.info("Refresh token does not contain jti or familyId.");
+    return { status: REFRESH_TOKEN_STATUS.INVALID };
+  }
+
+  const storedToken = (await getSingleRecord(RefreshToken, {
+    where: { id: payload.jti },
+    relations: { user: true },
+  })) as RefreshToken;
+
+  if (!storedToken || storedToken.tokenHash !== hashToken(token) || storedToken.familyId !== payload.familyId) {
+    logger.info("Refresh token does not match the stored token.");
+    return { status: REFRESH_TOKEN_STATUS.INVALID };
+  }
+
+  if (storedToken.isRevoked) {
+    logger.info(`Refresh token family ${storedToken.familyId} is revoked.`);
+    return { status: REFRESH_TOKEN_STATUS.REVOKED, payload };
+  }
+
+  if (storedToken.isUsed) {
+    logger.info(`Refresh token reuse detected for family ${storedToken.familyId}.`);
+    await revokeTokenFamily(storedToken.familyId);
+    return { status: REFRESH_TOKEN_STATUS.REUSED, payload };
+  }
+
+  // mark as used only if nobody rotated it in between
+  const result = (await updateRecords(RefreshToken, { id: storedToken.id, isUsed: 0 }, { isUsed: 1 })) as UpdateResult;
+  if (!result?.affected) {
+    logger.info(`Refresh token ${storedToken.id} was rotated concurrently.`);
+    await revokeTokenFamily(storedToken.familyId);
+    return { status: REFRESH_TOKEN_STATUS.REUSED, payload };
+  }
+
+  const tokens = await issueTokens(server, toTokenPayload(storedToken.user), storedToken.familyId);
+
+  return { status: REFRESH_TOKEN_STATUS.ROTATED, payload, tokens };
+};
+
+/**
+ * Revokes every refresh token of a user
+ */
+export const revokeUserRefreshTokens = async (userId: string) => {
+  logger.info(`Revoking all refresh tokens of user: ${userId}`);
+  return await updateRecords(RefreshToken, { user: { id: Number(userId) }, isRevoked: 0 }, { isRevoked: 1 });
+};
+
+/**
+ * Revokes the refresh token family of the given refresh token, if it is valid
+ */
+export const revokeRefreshToken = async (server: FastifyInstance, token: string) => {
+  try {
+    const payload = server.jwt.verify<RefreshTokenPayload>(token);
+    if (payload?.familyId) await revokeTokenFamily(payload.familyId);
+  } catch (error) {
+    logger.info(`Skipping refresh token revocation: ${error.message}`);
+  }
+};
+
+/**
+ * Denylists the access token until it expires. The entry is published, so every instance refuses the token.
+ */
+export const denylistAccessToken = async (payload: TokenPayload) => {
+  if (!payload?.jti) return;
+
+  const remainingTimeInSec = payload.exp ? payload.exp - Math.floor(Date.now() / 1000) : config.ACCESS_TOKEN_TIME;
+  if (remainingTimeInSec <= 0) return;
+
+  await setCacheData(`${ACCESS_TOKEN_DENYLIST_CACHE_KEY_PREFIX}${payload.jti}`, true, remainingTimeInSec, true);
+};
+
+/**
+ * Gets the current token version of the user (cached)
+ */
+export const getUserTokenVersion = async (userId: string): Promise<number | null> => {
+  const key = `${USER_TOKEN_VERSION_CACHE_KEY_PREFIX}${userId}`;
+
+  const cachedVersion = await getCacheData(key);
+  if (typeof cachedVersion === "number") return cachedVersion;
+
+  const user = await findUserById(userId);
+  if (!user) return null;
+
+  const tokenVersion = user.tokenVersion ?? 0;
+  await setCacheData(key, tokenVersion, config.ACCESS_TOKEN_TIME);
+  return tokenVersion;
+};
+
+/**
+ * Checks whether the access token was revoked by logout or "log out everywhere"
+ */
+export const isAccessTokenRevoked = async (payload: TokenPayload): Promise<boolean> => {
+  if (payload?.jti && (await checkCacheDataExist(`${ACCESS_TOKEN_DENYLIST_CACHE_KEY_PREFIX}${payload.jti}`))) {
+    return true;
+  }
+
+  const tokenVersion = await getUserTokenVersion(payload.userId);
+  return tokenVersion === null || (payload.tokenVersion ?? 0) !== tokenVersion;
+};
+
+/**
+ * Kills every active session of the user
+ */
+export const revokeAllUserSessions = async (userId: string) => {
+  const user = await findUserById(userId);
+  if (!user) return false;
+
+  await updateUser(user.id, { tokenVersion: (user.tokenVersion ?? 0) + 1 });
+  await deleteCacheData(`${USER_TOKEN_VERSION_CACHE_KEY_PREFIX}${userId}`);
+  await revokeUserRefreshTokens(userId);
+
+  return true;
+};
@@ -2,15 +2,26 @@
  * File contains the types to be used all over the app
  */
 interface TokenPayload {
-    userId: string;
+    userId: string; // id of the mysql User entity
     role: string;
+    tokenVersion?: number; // session version of the user, bumped on "log out everywhere"
+    jti?: string;
+    organizationId?: string; // tenant of the user, overrides the organization header
+    exp?: number;
+}
+
+interface RefreshTokenPayload extends TokenPayload {
+    familyId: string;
+}
+
+interface EmailVerificationPayload extends TokenPayload {
+    purpose: 'email-verification';
 }
 
 interface SignUpBody {
     email: string;
     password: string;
     userName: string;
-    role: string;
     firstName: string;
     lastName: string;
 }
\ No newline at end of file
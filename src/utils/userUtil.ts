@@ -0,0 +1,125 @@
+/**
+ * User Repository Module
+ * ----------------------
+ * Single access point for reading and writing users. Users are stored in the
+ * MySQL `User` entity so that auth flows and RBAC (UserRoleMap, createdBy,
+ * updatedBy) share the same numeric user id.
+ */
+
+import bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
+import { User } from "../entities/User";
+import { config } from "../config/config";
+import { getLogger } from "./logger";
+import { createRecords, getSingleRecord, updateRecords } from "./sql/sqlUtils";
+import { hashToken } from "./util";
+
+const logger = getLogger();
+
+const PASSWORD_SALT_ROUNDS = 10;
+
+// role of self-registered users, assigned by the server (never taken from the request)
+export const DEFAULT_USER_ROLE = "student";
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  isActive?: boolean;
+  firstName?: string;
+  lastName?: string;
+  userName?: string;
+  role?: string;
+  avatar?: string;
+  googleId?: string;
+  mongoId?: string;
+}
+
+/**
+ * Finds a user by the mysql id, e.g. the one stored in the token payload.
+ * Anything else than a positive integer finds no user, mongodb ids are resolved by findUserByMongoId.
+ */
+export const findUserById = async (userId: string | number): Promise<User | null> => {
+  const id = typeof userId === "number" ? userId : /^\d+$/.test(userId ?? "") ? Number(userId) : NaN;
+
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    logger.debug(`User id ${userId} is not a SQL user id.`);
+    return null;
+  }
+
+  return (await getSingleRecord(User, { where: { id } })) as User | null;
+};
+
+/**
+ * Finds a user migrated from mongodb by the id of its mongo document
+ */
+export const findUserByMongoId = async (mongoId: string): Promise<User | null> => {
+  return (await getSingleRecord(User, { where: { mongoId } })) as User | null;
+};
+
+export const findUserByEmail = async (email: string): Promise<User | null> => {
+  return (await getSingleRecord(User, { where: { email } })) as User | null;
+};
+
+export const findUserByGoogleId = async (googleId: string): Promise<User | null> => {
+  return (await getSingleRecord(User, { where: { googleId } })) as User | null;
+};
+
+export const findUserByUserName = async (userName: string): Promise<User | null> => {
+  return (await getSingleRecord(User, { where: { userName } })) as User | null;
+};
+
+/**
+ * Creates a user. `password` must already be hashed.
+ */
+export const createUser = async (data: CreateUserInput): Promise<User> => {
+  const name = `${data.firstName ?? ''} ${data.lastName ?? ''}`.trim() || data.userName || data.email;
+
+  logger.info(`Creating user for email: ${data.email}`);
+  return (await createRecords(User, { ...data, name })) as User;
+};
+
+export const updateUser = async (userId: number, update: Partial<User>) => {
+  logger.info(`Updating user: ${userId}`);
+  return await updateRecords(User, { id: userId }, update);
+};
+
+/**
+ * Builds the token payload with a stable user id
+ */
+export const toTokenPayload = (user: User): TokenPayload => {
+  const payload: TokenPayload = { userId: String(user.id), role: user.role, tokenVersion: user.tokenVersion ?? 0 };
+  if (user.organizationId) payload.organizationId = user.organizationId;
+  return payload;
+};
+
+export const hashPassword = async (password: string) => {
+  return await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+};
+
+/**
+ * Creates a single-use password reset token for the user.
+ * Only the hash is stored, the raw token is returned to be mailed.
+ */
+export const createPasswordResetToken = async (user: User): Promise<string> => {
+  const token = randomBytes(32).toString("hex");
+
+  await updateUser(user.id, {
+    passwordResetTokenHash: hashToken(token),
+    passwordResetExpiresAt: new Date(Date.now() + config.PASSWORD_RESET_TOKEN_TIME * 1000),
+  });
+
+  return token;
+};
+
+/**
+ * Finds the user owning a not expired password reset token
+ */
+export const findUserByPasswordResetToken = async (token: string): Promise<User | null> => {
+  const user = (await getSingleRecord(User, { where: { passwordResetTokenHash: hashToken(token) } })) as User | null;
+
+  if (!user || !user.passwordResetExpiresAt || user.passwordResetExpiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  return user;
+};
@@ -2,6 +2,8 @@
  * File contains the utils function to be used all over the application
  */
 
+import { createHash } from "crypto";
+
 /**
  * @param value Any value can be passed to check whether the value is valid or invalid
  * @returns 
@@ -16,4 +18,27 @@ export function isInvalid(value: unknown): boolean {
       (typeof value === "object" && Object.keys(value || {}).length === 0) ||
       (typeof value === "number" && isNaN(value))
     );
-}
\ No newline at end of file
+}
+
+/**
+ * @param token Token to hash before storing it (refresh, reset or verification tokens)
+ * @returns sha256 hex digest of the token
+ */
+export function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * @param value Value to serialize (e.g. a TypeORM find query)
+ * @returns JSON with the object keys sorted, so equal values always give the same string
+ */
+export function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, nestedValue) => {
+      if (!nestedValue || typeof nestedValue !== "object" || Array.isArray(nestedValue)) return nestedValue;
+
+      return Object.keys(nestedValue).sort().reduce((sorted: Record<string, unknown>, key) => {
+        sorted[key] = nestedValue[key];
+        return sorted;
+      }, {});
+    });
+}